@@ -0,0 +1,227 @@
+import { createCanvas, loadImage, type Image } from "@napi-rs/canvas";
+import { NextResponse } from "next/server";
+import { createBlinkSchedule, buildTextTrack, textFrameState } from "../../lib/animation";
+import { avatarStyles } from "../../lib/avatars";
+import { captionTrack } from "../../lib/captions";
+import { buildDialogue, defaultCastStyle, dialogueFrameStates, parseDialogue } from "../../lib/dialogue";
+import { exportPresets } from "../../lib/exportFormats";
+import { blendWithIdle, createIdleBehavior } from "../../lib/idle";
+import { frameCount } from "../../lib/offlineRender";
+import {
+  defaultProjectSettings,
+  parseProject,
+  type Project,
+  type ProjectMedia,
+  type ProjectSettings,
+} from "../../lib/project";
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  renderAvatarFrame,
+  renderSceneFrame,
+  type StageBackground,
+} from "../../lib/renderer";
+import { createZip, type ZipEntry } from "../../lib/zip";
+
+// @napi-rs/canvas is a native module.
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// One render call may not tie the server up indefinitely: ten seconds at 60 fps. Frames are
+// stepped from zero to keep blinks in sync, so the clip length is capped as well.
+const MAX_FRAMES = 600;
+const MAX_DURATION = 5 * 60_000;
+
+type RenderRequest = {
+  project?: unknown;
+  // Either a time range in milliseconds or a frame range (end exclusive) at `fps`.
+  start?: number;
+  end?: number;
+  startFrame?: number;
+  endFrame?: number;
+  fps?: number;
+  size?: number;
+  // "png" returns a single image and needs a one-frame range; "zip" returns a PNG sequence.
+  format?: "png" | "zip";
+};
+
+class RenderRequestError extends Error {}
+
+const readInteger = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.round(value) : fallback;
+
+// Raster images only, decoded from the project itself. Referenced media is refused rather than
+// fetched: the URL comes from the request, and following it would let callers reach any host the
+// server can.
+const EMBEDDED_IMAGE = /^data:image\/(?:png|jpeg|webp|gif);base64,/i;
+
+async function loadEmbeddedImage(media: ProjectMedia, role: string) {
+  if (media.kind !== "embedded") {
+    throw new RenderRequestError(`${role} “${media.name}” is not embedded in the project; save it with media embedded`);
+  }
+  if (media.mimeType.startsWith("video/")) {
+    throw new RenderRequestError(`${role} “${media.name}” is a video, which only the studio can render`);
+  }
+  if (!EMBEDDED_IMAGE.test(media.dataUrl)) {
+    throw new RenderRequestError(`${role} “${media.name}” is not a PNG, JPEG, WebP or GIF image`);
+  }
+  return loadImage(Buffer.from(media.dataUrl.slice(media.dataUrl.indexOf(",") + 1), "base64"));
+}
+
+// Mirrors the studio: a media background without its media falls back to the studio backdrop.
+async function loadBackground(settings: ProjectSettings, media: ProjectMedia | null): Promise<StageBackground<Image>> {
+  switch (settings.backgroundKind) {
+    case "solid":
+      return { kind: "solid", color: settings.backgroundColor };
+    case "media": {
+      if (!media) return { kind: "studio" };
+      const image = await loadEmbeddedImage(media, "Background");
+      return { kind: "media", source: image, width: image.width, height: image.height };
+    }
+    case "chroma":
+    case "transparent":
+      return { kind: settings.backgroundKind };
+    default:
+      return { kind: "studio" };
+  }
+}
+
+function frameRange(body: RenderRequest, fps: number, total: number) {
+  const first =
+    body.startFrame !== undefined
+      ? readInteger(body.startFrame, 0)
+      : Math.floor((readInteger(body.start, 0) / 1000) * fps);
+  const last =
+    body.endFrame !== undefined
+      ? readInteger(body.endFrame, total)
+      : body.end !== undefined
+        ? Math.ceil((readInteger(body.end, 0) / 1000) * fps)
+        : total;
+  const from = Math.max(0, Math.min(total - 1, first));
+  const to = Math.max(from + 1, Math.min(total, last));
+  if (to - from > MAX_FRAMES) {
+    throw new RenderRequestError(`Range covers ${to - from} frames; at most ${MAX_FRAMES} per request`);
+  }
+  return { from, to };
+}
+
+// Renders a saved text-mode project on the server the way the studio's offline export does:
+// background, burned-in captions, dialogue scenes, custom styles and sentence moods all apply, so
+// a frame here matches the PNG export for the same project, seed and frame index. Text is drawn
+// with the server's fonts, so captions and the readout may differ in glyph shape.
+export async function POST(request: Request) {
+  let parsed: unknown;
+  try {
+    parsed = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+  }
+  const body = parsed as RenderRequest;
+
+  try {
+    if (body.format !== undefined && body.format !== "png" && body.format !== "zip") {
+      throw new RenderRequestError("format must be “png” or “zip”");
+    }
+    let project: Project;
+    try {
+      project = parseProject(body.project, defaultProjectSettings());
+    } catch (error) {
+      throw new RenderRequestError(error instanceof Error ? error.message : "Invalid project");
+    }
+    const { settings } = project;
+    if (settings.mode !== "text") {
+      // Audio lip-sync relies on Web Audio analysis, which only exists in the browser.
+      throw new RenderRequestError("Only text-mode projects can be rendered on the server");
+    }
+    const lines = parseDialogue(settings.script);
+    const dialogue = lines ? buildDialogue(lines) : null;
+    const track = buildTextTrack(
+      dialogue?.script ?? settings.script,
+      settings.speechRate,
+      settings.speechPitch,
+      settings.autoGestures,
+      settings.autoSentiment ? { baseEmotion: settings.emotion, overrides: settings.sentimentOverrides } : null,
+    );
+    if (track.tokens.length === 0) throw new RenderRequestError("Project script is empty");
+    if (track.duration > MAX_DURATION) {
+      throw new RenderRequestError(
+        `Project runs ${Math.ceil(track.duration / 1000)} s; the server renders at most ${MAX_DURATION / 60_000} minutes`,
+      );
+    }
+
+    const preset = exportPresets.png;
+    const fps = preset.fpsOptions.includes(body.fps as number) ? (body.fps as number) : settings.exportSettings.png.fps;
+    const size = preset.sizes.includes(body.size as number) ? (body.size as number) : settings.exportSettings.png.size;
+    const { from, to } = frameRange(body, fps, frameCount(track.duration, fps));
+    const format = body.format ?? (to - from === 1 ? "png" : "zip");
+    if (format === "png" && to - from !== 1) {
+      throw new RenderRequestError("A single PNG needs a one-frame range; ask for a zip instead");
+    }
+
+    const deck = [...avatarStyles, ...settings.customStyles];
+    const style = deck.find((avatar) => avatar.id === settings.avatarId) ?? avatarStyles[0];
+    const castStyles =
+      dialogue?.speakers.map((speaker, index) => {
+        const id = settings.speakerCast[speaker]?.avatarId ?? defaultCastStyle(deck, style, index).id;
+        return deck.find((avatar) => avatar.id === id) ?? avatarStyles[0];
+      }) ?? [];
+    // Scenes are drawn with every presenter's procedural head, as in the studio.
+    const portrait =
+      project.media.portrait && !dialogue ? await loadEmbeddedImage(project.media.portrait, "Portrait") : null;
+    const background = await loadBackground(settings, project.media.background);
+    const captionsAt = captionTrack(track, settings.captionOptions, settings.captionStyle);
+    const blinks = (dialogue?.speakers ?? [null]).map((_, index) => createBlinkSchedule(settings.renderSeed + index));
+    const idle = createIdleBehavior(settings.renderSeed);
+    const canvas = createCanvas(size, size);
+    const ctx = canvas.getContext("2d");
+
+    const entries: ZipEntry[] = [];
+    // Blink onsets are drawn lazily in time order, so walk the clock from zero like the exporter.
+    for (let index = 0; index < to; index++) {
+      const time = (index * 1000) / fps;
+      const scene = dialogue
+        ? dialogueFrameStates(track, dialogue, time, settings.emotion, blinks)
+        : { active: 0, states: [textFrameState(track, time, settings.emotion, blinks[0])] };
+      if (index < from) continue;
+      const rest = idle(time, settings.emotion);
+      const states = scene.states.map((state) => blendWithIdle(state, rest, time, track.duration));
+      ctx.save();
+      ctx.clearRect(0, 0, size, size);
+      ctx.scale(size / CANVAS_WIDTH, size / CANVAS_HEIGHT);
+      if (dialogue) {
+        const presenters = states.map((state, speaker) => ({ state, style: castStyles[speaker] }));
+        renderSceneFrame(ctx, presenters, scene.active, settings.sceneLayout, { caption: captionsAt(time), background });
+      } else {
+        renderAvatarFrame(ctx, states[0], style, {
+          image: portrait,
+          landmarks: settings.portraitLandmarks,
+          caption: captionsAt(time),
+          background,
+        });
+      }
+      ctx.restore();
+      entries.push({ name: `frame_${String(index + 1).padStart(5, "0")}.png`, data: new Uint8Array(canvas.toBuffer("image/png")) });
+    }
+
+    if (format === "png") {
+      return new Response(new Uint8Array(entries[0].data), {
+        headers: { "Content-Type": "image/png", "X-Frame-Index": String(from) },
+      });
+    }
+    return new Response(createZip(entries), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="lipforge-frames-${from + 1}-${to}.zip"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof RenderRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(error);
+    return NextResponse.json({ error: "Render failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useRef } from "react";
+import { landmarkAnchors, type LandmarkKey, type PortraitLandmarks } from "../lib/portrait";
+import { CANVAS_HEIGHT, CANVAS_WIDTH, portraitStagePoint, stagePortraitPoint } from "../lib/renderer";
+
+// Draggable anchors laid over the stage while a portrait is being calibrated. Positions are
+// computed for the head at rest, so the stage should show an idle frame underneath.
+export default function LandmarkEditor({
+  landmarks,
+  onChange,
+}: {
+  landmarks: PortraitLandmarks;
+  onChange: (landmarks: PortraitLandmarks) => void;
+}) {
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const draggingRef = useRef<LandmarkKey | null>(null);
+
+  const stage = (key: LandmarkKey) => portraitStagePoint(landmarks[key]);
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const key = draggingRef.current;
+    const root = rootRef.current;
+    if (!key || !root) return;
+    const rect = root.getBoundingClientRect();
+    const point = stagePortraitPoint({
+      x: ((event.clientX - rect.left) / rect.width) * CANVAS_WIDTH,
+      y: ((event.clientY - rect.top) / rect.height) * CANVAS_HEIGHT,
+    });
+    onChange({ ...landmarks, [key]: point });
+  };
+
+  const stopDragging = () => {
+    draggingRef.current = null;
+  };
+
+  const outline = (keys: LandmarkKey[]) =>
+    keys
+      .map(stage)
+      .map((point) => `${point.x},${point.y}`)
+      .join(" ");
+
+  return (
+    <div
+      ref={rootRef}
+      onPointerMove={handlePointerMove}
+      onPointerUp={stopDragging}
+      onPointerLeave={stopDragging}
+      style={{ position: "absolute", inset: 0, touchAction: "none" }}
+    >
+      <svg
+        viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`}
+        style={{ position: "absolute", inset: 0, width: "100%", height: "100%", pointerEvents: "none" }}
+      >
+        <polyline points={outline(["mouthLeft", "mouthRight"])} stroke="rgba(96,165,250,0.8)" strokeWidth={2} fill="none" />
+        <polyline
+          points={outline(["jawLeft", "chin", "jawRight"])}
+          stroke="rgba(96,165,250,0.8)"
+          strokeWidth={2}
+          strokeDasharray="6 4"
+          fill="none"
+        />
+        <polyline
+          points={outline(["leftEye", "rightEye"])}
+          stroke="rgba(148,163,184,0.5)"
+          strokeWidth={1.5}
+          strokeDasharray="3 4"
+          fill="none"
+        />
+      </svg>
+      {landmarkAnchors.map(({ key, label }) => {
+        const point = stage(key);
+        return (
+          <button
+            key={key}
+            type="button"
+            title={label}
+            aria-label={`${label} anchor`}
+            onPointerDown={(event) => {
+              event.preventDefault();
+              draggingRef.current = key;
+            }}
+            style={{
+              position: "absolute",
+              left: `${(point.x / CANVAS_WIDTH) * 100}%`,
+              top: `${(point.y / CANVAS_HEIGHT) * 100}%`,
+              width: 16,
+              height: 16,
+              marginLeft: -8,
+              marginTop: -8,
+              borderRadius: "50%",
+              border: "2px solid white",
+              background: key.endsWith("Eye") ? "rgba(56,189,248,0.9)" : "rgba(37,99,235,0.9)",
+              boxShadow: "0 0 10px rgba(96,165,250,0.8)",
+              cursor: "grab",
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+}
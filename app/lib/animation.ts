@@ -0,0 +1,234 @@
+import type { AvatarVisualState, Emotion } from "./avatars";
+import { planGestures, restPose, sampleGesture } from "./gestures";
+import { buildVisemeTrack, sampleVisemeTrack, type VisemeCue } from "./phonemes";
+import { parseScriptCues, pauseHolds, type ScriptCue } from "./scriptCues";
+import { sentimentCues, tagSentences, type SentimentOptions } from "./sentiment";
+import { defaultProsody, type TokenProsody } from "./ssml";
+
+export type Rng = () => number;
+
+export type BlinkSchedule = (time: number) => number;
+
+export type TextTrack = {
+  // Spoken text: the script with cue tags stripped.
+  text: string;
+  tokens: string[];
+  offsets: number[];
+  segments: number[];
+  visemes: VisemeCue[];
+  cues: ScriptCue[];
+  holds: number[];
+  prosody: TokenProsody[];
+  duration: number;
+};
+
+export type MouthDrive = {
+  level: number;
+  openness: number;
+  width: number;
+  roundness: number;
+};
+
+const BLINK_LENGTH = 180;
+
+// mulberry32: tiny, fast and good enough to make blinks and glances reproducible per seed.
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Blink onsets are drawn lazily from the seeded RNG, so asking for any time, in any order,
+// always yields the same blink curve for the same seed.
+export function createBlinkSchedule(seed: number): BlinkSchedule {
+  const rng = createRng(seed);
+  const onsets = [4000];
+  return (time: number) => {
+    while (onsets[onsets.length - 1] <= time) {
+      onsets.push(onsets[onsets.length - 1] + 2500 + rng() * 3200);
+    }
+    let low = 0;
+    let high = onsets.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (onsets[mid] <= time) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    const since = time - onsets[low];
+    if (since < 0 || since > BLINK_LENGTH) return 0;
+    const phase = 1 - Math.abs(since - BLINK_LENGTH / 2) / (BLINK_LENGTH / 2);
+    return Math.pow(phase, 2);
+  };
+}
+
+export const textDurationMultiplier = (rate: number, pitch: number) => 78 - rate * 6 + (pitch > 1 ? -4 : 0);
+
+// Accepts the raw script; cue tags and SSML are parsed out here so every caller animates the
+// same cleaned text the voice speaks. `rate` and `pitch` are the voice sliders; SSML prosody
+// scales them per word, exactly as the utterance queue does. With `autoGestures`, beats on
+// sentence starts and questions are added to the cues around any scripted gestures; with
+// `sentiment`, sentences the lexicon finds emotional get a cue from their tag.
+export function buildTextTrack(
+  script: string,
+  rate = 1,
+  pitch = 1,
+  autoGestures = true,
+  sentiment: SentimentOptions | null = null,
+): TextTrack {
+  const parsed = parseScriptCues(script);
+  const matches = Array.from(parsed.text.matchAll(/\S+/g));
+  const tokens = matches.map((match) => match[0]);
+  const offsets = matches.map((match) => match.index ?? 0);
+  const holds = pauseHolds(parsed);
+  const segments = tokens.map((token, index) => {
+    const prosody = parsed.prosody[index] ?? defaultProsody;
+    const durationMultiplier = textDurationMultiplier(rate * prosody.rate, pitch * prosody.pitch);
+    const letters = token.replace(/[^a-z]/gi, "").length || 1;
+    const punctuationBoost = /[,.!?]$/.test(token) ? 420 : 0;
+    return letters * durationMultiplier + 240 + punctuationBoost + holds[index];
+  });
+  const scripted = parsed.cues.flatMap((cue) => (cue.kind === "gesture" ? [cue] : []));
+  const planned: ScriptCue[] = autoGestures
+    ? planGestures(tokens, segments, scripted).map((cue) => ({ kind: "gesture" as const, ...cue }))
+    : [];
+  const tagged = sentiment
+    ? sentimentCues(tagSentences(tokens, parsed.cues, sentiment.overrides), sentiment.baseEmotion)
+    : [];
+  // The sort is stable, so a sentence tag never lands after a scripted cue on the same word.
+  const cues = [...tagged, ...parsed.cues, ...planned].sort((a, b) => a.tokenIndex - b.tokenIndex);
+  return {
+    text: parsed.text,
+    tokens,
+    offsets,
+    segments,
+    visemes: buildVisemeTrack(tokens, segments, holds),
+    cues,
+    holds,
+    prosody: parsed.prosody,
+    duration: segments.reduce((acc, item) => acc + item, 0),
+  };
+}
+
+const lastCue = <K extends ScriptCue["kind"]>(cues: ScriptCue[], kind: K, tokenIndex: number) => {
+  let found: ScriptCue | null = null;
+  for (const cue of cues) {
+    if (cue.kind === kind && cue.tokenIndex <= tokenIndex) found = cue;
+  }
+  return found as Extract<ScriptCue, { kind: K }> | null;
+};
+
+const sumSegments = (segments: number[], count: number) => {
+  let total = 0;
+  for (let i = 0; i < count && i < segments.length; i++) total += segments[i];
+  return total;
+};
+
+// `baseEmotion` is the clip's mood until an emotion cue in the track overrides it from its word on.
+export function textFrameState(
+  track: Pick<TextTrack, "tokens" | "segments" | "visemes" | "cues" | "prosody" | "duration">,
+  time: number,
+  baseEmotion: Emotion,
+  blink: BlinkSchedule,
+): AvatarVisualState {
+  const clamped = Math.max(0, Math.min(time, track.duration));
+  const ratio = track.duration === 0 ? 0 : clamped / track.duration;
+
+  let activeIndex = track.tokens.length - 1;
+  let accumulated = 0;
+  for (let i = 0; i < track.segments.length; i++) {
+    accumulated += track.segments[i];
+    if (clamped <= accumulated) {
+      activeIndex = i;
+      break;
+    }
+  }
+
+  const token = track.tokens[activeIndex] ?? "";
+  const phoneticEnergy = Math.min(1, token.replace(/[^a-z]/gi, "").length / 6 + 0.2);
+  const localElapsed = clamped - (accumulated - (track.segments[activeIndex] ?? 0));
+  const localDuration = track.segments[activeIndex] || 1;
+  const localRatio = Math.max(0, Math.min(1, localElapsed / localDuration));
+  const localEnvelope = Math.sin(localRatio * Math.PI);
+  // Emphasized words get a bigger brow raise and a head dip that peaks mid-word.
+  const emphasis = track.prosody[activeIndex]?.emphasis ?? 0;
+
+  const mouthShape = sampleVisemeTrack(track.visemes, clamped);
+  const audioLevel = Math.max(0.05, mouthShape.openness);
+
+  const moodCue = lastCue(track.cues, "emotion", activeIndex);
+  const emotion = moodCue?.emotion ?? baseEmotion;
+  const mood = moodCue?.intensity ?? 1;
+
+  const emotionPulse = Math.sin((time / 6000) * Math.PI * 2) * 0.15 + 0.85;
+  const emotionIntensity = Math.min(1, (0.3 + emotionPulse * (0.5 + phoneticEnergy * 0.5)) * (0.4 + mood * 0.6));
+  const idleHands = Math.sin(ratio * Math.PI * 2 + phoneticEnergy * 2) * phoneticEnergy;
+
+  // The most recent gesture plays over the talking-hands rest pose until it has run its course.
+  const gestureCue = lastCue(track.cues, "gesture", activeIndex);
+  const base = restPose(idleHands);
+  const pose =
+    (gestureCue && sampleGesture(gestureCue.gesture, clamped - sumSegments(track.segments, gestureCue.tokenIndex), base)) ||
+    base;
+
+  return {
+    emotion,
+    emotionIntensity,
+    mouthOpenness: mouthShape.openness,
+    mouthRoundness: Math.min(1, mouthShape.roundness + (emotion === "surprised" ? 0.15 * mood : 0)),
+    mouthWidth: mouthShape.width + (emotion === "happy" ? 0.06 : emotion === "sad" ? -0.05 : 0) * mood,
+    headTilt: Math.sin(ratio * Math.PI * 2 + phoneticEnergy) * 6 +
+      (emotion === "happy" ? 3 : emotion === "sad" ? -4 : 0) * mood +
+      localEnvelope * emphasis * 6 +
+      pose.head.roll,
+    headTurn: Math.sin(time / 1200) * 4 + Math.cos(ratio * Math.PI * 4) * 3 + pose.head.yaw,
+    browLift: 0.2 + localEnvelope * (0.5 + emphasis * 0.45) + (emotion === "angry" ? -0.2 * mood : 0),
+    eyeOffsetX: Math.sin(time / 800) * 0.7 + Math.sin(ratio * Math.PI * 6) * 0.2,
+    eyeOffsetY: Math.cos(time / 1000) * 0.3 + (emotion === "sad" ? 0.2 * mood : 0) + pose.head.pitch * 0.06,
+    blink: blink(time),
+    handCycle: idleHands,
+    shimmer: Math.sin(time / 320) * 0.5 + 0.5,
+    timelineLabel: token ? token : "Expressing",
+    audioLevel,
+    pose,
+  };
+}
+
+// `mood` scales the emotion's strength the way a cue's intensity does for text, e.g. from the
+// per-phrase moods proposed for an uploaded clip.
+export function audioFrameState(
+  mouth: MouthDrive,
+  time: number,
+  emotion: Emotion,
+  blink: BlinkSchedule,
+  timelineLabel: string,
+  mood = 1,
+): AvatarVisualState {
+  const level = mouth.level;
+  const handCycle = Math.sin(time / 380) * (0.4 + level * 0.7);
+  return {
+    emotion,
+    emotionIntensity: (0.3 + level * 0.6) * (0.4 + mood * 0.6),
+    mouthOpenness: mouth.openness,
+    mouthWidth: mouth.width,
+    mouthRoundness: mouth.roundness,
+    headTilt: Math.sin(time / 720) * (5 + level * 6),
+    headTurn: Math.cos(time / 960) * (4 + level * 5),
+    browLift: 0.15 + level * 0.55,
+    eyeOffsetX: Math.sin(time / 640) * (0.6 + level * 0.6),
+    eyeOffsetY: Math.sin(time / 820) * (0.4 + level * 0.4),
+    blink: blink(time),
+    handCycle,
+    shimmer: Math.sin(time / 220) * 0.5 + 0.5,
+    timelineLabel,
+    audioLevel: level,
+    pose: restPose(handCycle),
+  };
+}
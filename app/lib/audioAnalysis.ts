@@ -0,0 +1,207 @@
+export type AudioFrame = {
+  rms: number;
+  level: number;
+  centroid: number;
+  low: number;
+  mid: number;
+  high: number;
+  silent: boolean;
+  openness: number;
+  width: number;
+  roundness: number;
+};
+
+export type AudioTrack = {
+  frameRate: number;
+  duration: number;
+  frames: AudioFrame[];
+};
+
+const ANALYSIS_SAMPLE_RATE = 44100;
+const FFT_SIZE = 1024;
+
+// Vowel first formants sit in the low band, second formants in the mid band, and
+// fricatives/sibilants push energy into the high band.
+const bands = {
+  low: [80, 900],
+  mid: [900, 3000],
+  high: [3000, 8000],
+} as const;
+
+const silent = (): AudioFrame => ({
+  rms: 0,
+  level: 0,
+  centroid: 0,
+  low: 0,
+  mid: 0,
+  high: 0,
+  silent: true,
+  openness: 0,
+  width: 0.5,
+  roundness: 0.2,
+});
+
+function fft(real: Float64Array, imag: Float64Array) {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wReal = 1;
+      let wImag = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tReal = real[b] * wReal - imag[b] * wImag;
+        const tImag = real[b] * wImag + imag[b] * wReal;
+        real[b] = real[a] - tReal;
+        imag[b] = imag[a] - tImag;
+        real[a] += tReal;
+        imag[a] += tImag;
+        const nextReal = wReal * stepReal - wImag * stepImag;
+        wImag = wReal * stepImag + wImag * stepReal;
+        wReal = nextReal;
+      }
+    }
+  }
+}
+
+function percentile(values: number[], fraction: number) {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+}
+
+export function mixToMono(buffer: AudioBuffer) {
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+export function analyzeSamples(samples: Float32Array, sampleRate: number, frameRate = 60): AudioTrack {
+  const hop = sampleRate / frameRate;
+  const frameCount = Math.ceil(samples.length / hop);
+  const binHz = sampleRate / FFT_SIZE;
+  const window = new Float64Array(FFT_SIZE).map((_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1)));
+  const real = new Float64Array(FFT_SIZE);
+  const imag = new Float64Array(FFT_SIZE);
+
+  const raw: Pick<AudioFrame, "rms" | "centroid" | "low" | "mid" | "high">[] = [];
+  for (let frame = 0; frame < frameCount; frame++) {
+    const center = Math.floor(frame * hop);
+    const offset = center - FFT_SIZE / 2;
+    let energy = 0;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const sample = samples[offset + i] ?? 0;
+      energy += sample * sample;
+      real[i] = sample * window[i];
+      imag[i] = 0;
+    }
+    fft(real, imag);
+
+    let weighted = 0;
+    let total = 0;
+    const bandEnergy = { low: 0, mid: 0, high: 0 };
+    for (let bin = 1; bin < FFT_SIZE / 2; bin++) {
+      const hz = bin * binHz;
+      const magnitude = Math.hypot(real[bin], imag[bin]);
+      weighted += hz * magnitude;
+      total += magnitude;
+      if (hz >= bands.low[0] && hz < bands.low[1]) bandEnergy.low += magnitude;
+      else if (hz >= bands.mid[0] && hz < bands.mid[1]) bandEnergy.mid += magnitude;
+      else if (hz >= bands.high[0] && hz < bands.high[1]) bandEnergy.high += magnitude;
+    }
+    raw.push({
+      rms: Math.sqrt(energy / FFT_SIZE),
+      centroid: total > 0 ? weighted / total : 0,
+      ...bandEnergy,
+    });
+  }
+
+  // Normalise against the clip itself so loud and quiet recordings animate alike.
+  const rmsValues = raw.map((frame) => frame.rms);
+  const peak = percentile(rmsValues, 0.95) || 1;
+  const noiseFloor = Math.max(0.004, percentile(rmsValues, 0.1) * 2);
+  const hangover = Math.round(frameRate * 0.12);
+
+  let quietRun = 0;
+  const frames = raw.map((frame): AudioFrame => {
+    quietRun = frame.rms < noiseFloor ? quietRun + 1 : 0;
+    if (quietRun > hangover) return { ...silent(), rms: frame.rms, centroid: frame.centroid };
+
+    const level = Math.min(1, frame.rms / peak);
+    const bandTotal = frame.low + frame.mid + frame.high || 1;
+    const low = frame.low / bandTotal;
+    const mid = frame.mid / bandTotal;
+    const high = frame.high / bandTotal;
+    const sibilance = Math.max(0, high - 0.25) / 0.75;
+    const brightness = Math.min(1, frame.centroid / 3500);
+    return {
+      rms: frame.rms,
+      level,
+      centroid: frame.centroid,
+      low,
+      mid,
+      high,
+      silent: false,
+      openness: Math.min(1, level * (0.35 + low * 0.9) * (1 - sibilance * 0.6)),
+      width: Math.min(1, 0.45 + mid * 0.35 + sibilance * 0.3),
+      roundness: Math.max(0.05, Math.min(1, (1 - brightness) * low * 1.3 - sibilance * 0.3)),
+    };
+  });
+
+  return {
+    frameRate,
+    duration: (samples.length / sampleRate) * 1000,
+    frames,
+  };
+}
+
+export async function decodeAudioFile(file: Blob, sampleRate = ANALYSIS_SAMPLE_RATE): Promise<AudioBuffer> {
+  const data = await file.arrayBuffer();
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  return context.decodeAudioData(data);
+}
+
+export async function analyzeAudioFile(file: Blob, frameRate = 60): Promise<AudioTrack> {
+  const buffer = await decodeAudioFile(file);
+  return analyzeSamples(mixToMono(buffer), buffer.sampleRate, frameRate);
+}
+
+export function sampleAudioTrack(track: AudioTrack, time: number): AudioFrame {
+  const position = (time / 1000) * track.frameRate;
+  const index = Math.floor(position);
+  const current = track.frames[index];
+  const next = track.frames[index + 1];
+  if (!current) return silent();
+  if (!next) return current;
+  const t = position - index;
+  const mix = (a: number, b: number) => a + (b - a) * t;
+  return {
+    rms: mix(current.rms, next.rms),
+    level: mix(current.level, next.level),
+    centroid: mix(current.centroid, next.centroid),
+    low: mix(current.low, next.low),
+    mid: mix(current.mid, next.mid),
+    high: mix(current.high, next.high),
+    silent: current.silent && next.silent,
+    openness: mix(current.openness, next.openness),
+    width: mix(current.width, next.width),
+    roundness: mix(current.roundness, next.roundness),
+  };
+}
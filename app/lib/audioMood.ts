@@ -0,0 +1,244 @@
+import type { Emotion } from "./avatars";
+import type { AudioTrack } from "./audioAnalysis";
+
+// Phrase-level prosody, each measured against the clip as a whole so a speaker's own baseline
+// reads as neutral whatever their natural register.
+export type ProsodyFeatures = {
+  // Median pitch relative to the clip's median, in semitones.
+  pitch: number;
+  // Spread of the pitch contour (10th to 90th percentile), in semitones.
+  pitchRange: number;
+  // Mean level and level swing, as ratios to the clip's.
+  energy: number;
+  energyVariance: number;
+  // Syllable-like energy peaks per second.
+  rate: number;
+};
+
+export type Mood = { emotion: Emotion; intensity: number };
+
+export type MoodPhraseStatus = "proposed" | "accepted" | "overridden";
+
+export type MoodPhrase = {
+  id: number;
+  start: number;
+  end: number;
+  // What drives the avatar: the proposal until the user overrides it.
+  emotion: Emotion;
+  intensity: number;
+  proposed: Mood;
+  status: MoodPhraseStatus;
+  features: ProsodyFeatures;
+};
+
+const PITCH_RATE = 20;
+const PITCH_WINDOW = 0.04;
+const MIN_PITCH = 75;
+const MAX_PITCH = 400;
+// YIN's dip threshold: lower is stricter about what counts as voiced.
+const VOICING_THRESHOLD = 0.15;
+
+// A pause this long ends a phrase; anything shorter is a breath inside it.
+const PHRASE_GAP = 280;
+const MIN_PHRASE = 200;
+// How long a new emotion takes to come in when the mood changes between phrases.
+const MOOD_FADE = 250;
+
+function percentile(values: number[], fraction: number) {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+}
+
+const mean = (values: number[]) => (values.length ? values.reduce((acc, value) => acc + value, 0) / values.length : 0);
+
+const deviation = (values: number[]) => {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map((value) => (value - average) ** 2)));
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Fundamental frequency at PITCH_RATE frames per second using YIN's cumulative mean normalised
+// difference, on a signal decimated to about 11 kHz so long clips stay quick. 0 marks unvoiced
+// or silent frames.
+export function estimatePitch(samples: Float32Array, sampleRate: number): number[] {
+  const factor = Math.max(1, Math.round(sampleRate / 11025));
+  const rate = sampleRate / factor;
+  const decimated = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < decimated.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j];
+    decimated[i] = sum / factor;
+  }
+
+  const window = Math.round(rate * PITCH_WINDOW);
+  const minLag = Math.floor(rate / MAX_PITCH);
+  const maxLag = Math.ceil(rate / MIN_PITCH);
+  const hop = rate / PITCH_RATE;
+  const difference = new Float64Array(maxLag + 1);
+  const pitches: number[] = [];
+  for (let start = 0; start + window + maxLag < decimated.length; start += hop) {
+    const offset = Math.floor(start);
+    let energy = 0;
+    for (let i = 0; i < window; i++) energy += decimated[offset + i] ** 2;
+    if (Math.sqrt(energy / window) < 0.002) {
+      pitches.push(0);
+      continue;
+    }
+    let running = 0;
+    let found = 0;
+    for (let lag = 1; lag <= maxLag; lag++) {
+      let sum = 0;
+      for (let i = 0; i < window; i++) {
+        const delta = decimated[offset + i] - decimated[offset + i + lag];
+        sum += delta * delta;
+      }
+      running += sum;
+      difference[lag] = running > 0 ? (sum * lag) / running : 1;
+      // Take the first dip under the threshold, at the bottom of its valley.
+      if (lag > minLag && difference[lag - 1] < VOICING_THRESHOLD && difference[lag] >= difference[lag - 1]) {
+        found = lag - 1;
+        break;
+      }
+    }
+    pitches.push(found ? rate / found : 0);
+  }
+  return pitches;
+}
+
+// Syllable nuclei show up as local peaks in the level envelope.
+const countPeaks = (levels: number[], spacing: number) => {
+  let peaks = 0;
+  let last = -spacing;
+  for (let i = 1; i < levels.length - 1; i++) {
+    if (levels[i] < 0.25 || i - last < spacing) continue;
+    if (levels[i] >= levels[i - 1] && levels[i] > levels[i + 1]) {
+      peaks += 1;
+      last = i;
+    }
+  }
+  return peaks;
+};
+
+// Frame ranges of speech separated by pauses of at least PHRASE_GAP.
+function findPhrases(track: AudioTrack) {
+  const gapFrames = Math.round((PHRASE_GAP / 1000) * track.frameRate);
+  const phrases: { from: number; to: number }[] = [];
+  let from = -1;
+  let quiet = 0;
+  track.frames.forEach((frame, index) => {
+    if (!frame.silent) {
+      if (from < 0) from = index;
+      quiet = 0;
+      return;
+    }
+    if (from < 0) return;
+    quiet += 1;
+    if (quiet >= gapFrames) {
+      phrases.push({ from, to: index - quiet + 1 });
+      from = -1;
+    }
+  });
+  if (from >= 0) phrases.push({ from, to: track.frames.length - quiet });
+  const minFrames = (MIN_PHRASE / 1000) * track.frameRate;
+  return phrases.filter((phrase) => phrase.to - phrase.from >= minFrames);
+}
+
+// Scores are roughly 0 at the speaker's baseline and 1 for a clear case; the best one wins if
+// it is convincing enough, otherwise the phrase stays neutral.
+function classify(features: ProsodyFeatures, baselineRange: number, seconds: number): Mood {
+  const pitch = features.pitch / 2;
+  const range = baselineRange > 0 ? features.pitchRange / baselineRange - 1 : 0;
+  const energy = features.energy - 1;
+  const swing = features.energyVariance - 1;
+  const pace = features.rate - 1;
+  const scores: [Emotion, number][] = [
+    ["happy", 0.4 * pitch + 0.4 * range + 0.3 * energy],
+    ["surprised", 0.6 * pitch + 0.4 * range + (seconds < 1.2 ? 0.2 : 0) - 0.35],
+    ["angry", 0.6 * energy + 0.35 * swing + 0.3 * pace - 0.2 * Math.max(0, pitch)],
+    ["sad", -(0.35 * pitch + 0.5 * energy + 0.35 * pace) - 0.2 * range],
+  ];
+  const [emotion, score] = scores.reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+  if (score < 0.25) return { emotion: "neutral", intensity: 0.5 };
+  return { emotion, intensity: clamp(0.4 + score * 0.6, 0.3, 1) };
+}
+
+// Splits the clip into phrases and proposes an emotion and intensity for each from its pitch
+// contour, energy variance and speaking rate.
+export function proposeMoods(samples: Float32Array, sampleRate: number, track: AudioTrack): MoodPhrase[] {
+  const pitches = estimatePitch(samples, sampleRate);
+  const pitchAt = (frame: number) => pitches[Math.floor((frame / track.frameRate) * PITCH_RATE)] ?? 0;
+  const voicedPitch = (from: number, to: number) => {
+    const values: number[] = [];
+    for (let frame = from; frame < to; frame += track.frameRate / PITCH_RATE) {
+      const hz = pitchAt(frame);
+      if (hz > 0) values.push(hz);
+    }
+    return values;
+  };
+  const levels = (from: number, to: number) =>
+    track.frames.slice(from, to).flatMap((frame) => (frame.silent ? [] : [frame.level]));
+
+  const phrases = findPhrases(track);
+  if (phrases.length === 0) return [];
+  const spacing = Math.round(track.frameRate * 0.12);
+  const clipPitch = percentile(voicedPitch(0, track.frames.length), 0.5);
+  const clipLevels = levels(0, track.frames.length);
+  const clipEnergy = mean(clipLevels) || 1;
+  const clipSwing = deviation(clipLevels) || 1;
+  const spokenSeconds = phrases.reduce((acc, phrase) => acc + (phrase.to - phrase.from), 0) / track.frameRate;
+  const clipPeaks = phrases.reduce((acc, phrase) => acc + countPeaks(levels(phrase.from, phrase.to), spacing), 0);
+  const clipRate = clipPeaks / spokenSeconds || 1;
+
+  const measured = phrases.map(({ from, to }) => {
+    const semitones = clipPitch > 0 ? voicedPitch(from, to).map((hz) => 12 * Math.log2(hz / clipPitch)) : [];
+    const phraseLevels = levels(from, to);
+    const seconds = (to - from) / track.frameRate;
+    const features: ProsodyFeatures = {
+      pitch: percentile(semitones, 0.5),
+      pitchRange: semitones.length ? percentile(semitones, 0.9) - percentile(semitones, 0.1) : 0,
+      energy: mean(phraseLevels) / clipEnergy,
+      energyVariance: deviation(phraseLevels) / clipSwing,
+      rate: countPeaks(phraseLevels, spacing) / seconds / clipRate,
+    };
+    return { from, to, seconds, features };
+  });
+  const baselineRange = percentile(measured.map((phrase) => phrase.features.pitchRange), 0.5);
+
+  return measured.map(({ from, to, seconds, features }, index) => {
+    const proposed = classify(features, baselineRange, seconds);
+    return {
+      id: index + 1,
+      start: (from / track.frameRate) * 1000,
+      end: (to / track.frameRate) * 1000,
+      ...proposed,
+      proposed,
+      status: "proposed",
+      features,
+    };
+  });
+}
+
+// The mood `time` ms into the clip. A phrase's mood holds through the pause after it, and a
+// change of emotion fades in rather than snapping. Null before the first phrase.
+export function moodAt(phrases: MoodPhrase[], time: number): Mood | null {
+  let index = -1;
+  for (let i = 0; i < phrases.length && phrases[i].start <= time; i++) index = i;
+  if (index < 0) return null;
+  const phrase = phrases[index];
+  const previous = phrases[index - 1];
+  if (!previous || previous.emotion === phrase.emotion) return { emotion: phrase.emotion, intensity: phrase.intensity };
+  const edge = Math.min(1, (time - phrase.start) / MOOD_FADE);
+  return { emotion: phrase.emotion, intensity: phrase.intensity * edge * edge * (3 - 2 * edge) };
+}
+
+export function describeProsody(features: ProsodyFeatures) {
+  const sign = (value: number) => (value >= 0 ? "+" : "");
+  return [
+    `pitch ${sign(features.pitch)}${features.pitch.toFixed(1)} st`,
+    `range ${features.pitchRange.toFixed(1)} st`,
+    `energy ×${features.energy.toFixed(2)}`,
+    `rate ×${features.rate.toFixed(2)}`,
+  ].join(" · ");
+}
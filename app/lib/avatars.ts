@@ -0,0 +1,106 @@
+import type { BodyPose } from "./gestures";
+
+export type Emotion = "neutral" | "happy" | "sad" | "angry" | "surprised";
+
+export type AvatarStyle = {
+  id: string;
+  label: string;
+  description: string;
+  background: string;
+  base: string;
+  secondary: string;
+  highlight: string;
+  accent: string;
+  skin: string;
+  clothing: string;
+};
+
+export type AvatarVisualState = {
+  emotion: Emotion;
+  emotionIntensity: number;
+  mouthOpenness: number;
+  mouthWidth: number;
+  mouthRoundness: number;
+  headTilt: number;
+  headTurn: number;
+  browLift: number;
+  eyeOffsetX: number;
+  eyeOffsetY: number;
+  blink: number;
+  handCycle: number;
+  shimmer: number;
+  timelineLabel?: string;
+  audioLevel: number;
+  // Full-body pose from the gesture layer. States without one (listeners in a dialogue scene,
+  // older saved frames) are drawn with the rest pose driven by `handCycle`.
+  pose?: BodyPose;
+};
+
+export const avatarStyles: AvatarStyle[] = [
+  {
+    id: "nova",
+    label: "Nova",
+    description: "Crisp studio host with cool neon accents",
+    background: "linear-gradient(135deg, rgba(37,99,235,0.35), rgba(15,23,42,0.9))",
+    base: "#1e3a8a",
+    secondary: "#0f172a",
+    highlight: "#60a5fa",
+    accent: "#38bdf8",
+    skin: "#f1c7a8",
+    clothing: "#1d4ed8",
+  },
+  {
+    id: "ember",
+    label: "Ember",
+    description: "Warm storyteller with amber glow",
+    background: "linear-gradient(135deg, rgba(234,88,12,0.35), rgba(15,23,42,0.9))",
+    base: "#9a3412",
+    secondary: "#431407",
+    highlight: "#fb923c",
+    accent: "#f97316",
+    skin: "#e0ac8a",
+    clothing: "#c2410c",
+  },
+  {
+    id: "verdant",
+    label: "Verdant",
+    description: "Calm explainer in soft emerald tones",
+    background: "linear-gradient(135deg, rgba(16,185,129,0.32), rgba(15,23,42,0.9))",
+    base: "#065f46",
+    secondary: "#022c22",
+    highlight: "#34d399",
+    accent: "#10b981",
+    skin: "#c68e6b",
+    clothing: "#047857",
+  },
+  {
+    id: "orchid",
+    label: "Orchid",
+    description: "Playful creator with violet highlights",
+    background: "linear-gradient(135deg, rgba(168,85,247,0.35), rgba(15,23,42,0.9))",
+    base: "#6b21a8",
+    secondary: "#2e1065",
+    highlight: "#c084fc",
+    accent: "#a855f7",
+    skin: "#f3d2bd",
+    clothing: "#7e22ce",
+  },
+];
+
+export const defaultVisualState: AvatarVisualState = {
+  emotion: "neutral",
+  emotionIntensity: 0.25,
+  mouthOpenness: 0,
+  mouthWidth: 0.5,
+  mouthRoundness: 0.2,
+  headTilt: 0,
+  headTurn: 0,
+  browLift: 0.2,
+  eyeOffsetX: 0,
+  eyeOffsetY: 0,
+  blink: 0,
+  handCycle: 0,
+  shimmer: 0,
+  timelineLabel: "Idle",
+  audioLevel: 0,
+};
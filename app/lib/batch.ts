@@ -0,0 +1,188 @@
+import type { Emotion } from "./avatars";
+
+export type BatchRow = {
+  script: string;
+  emotion: Emotion;
+  // Empty means "whatever is selected in the studio".
+  avatarId: string;
+  voice: string;
+  // File name without extension; the export format supplies it.
+  output: string;
+};
+
+export type BatchJobStatus = "queued" | "rendering" | "done" | "failed";
+
+export type BatchJob = {
+  id: number;
+  row: BatchRow;
+  status: BatchJobStatus;
+  // 0–100 while rendering.
+  progress: number;
+  error: string | null;
+  // Non-fatal note from the exporter, e.g. audio dropped.
+  warning: string | null;
+  result: { blob: Blob; fileName: string } | null;
+};
+
+const emotions: Emotion[] = ["neutral", "happy", "sad", "angry", "surprised"];
+const columns = ["script", "emotion", "avatarId", "voice", "output"] as const;
+
+export type CsvRecord = {
+  fields: string[];
+  // 1-based line the record starts on, counting blank lines and newlines inside quoted fields.
+  line: number;
+};
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes.
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  // Counts the line break at `i` and returns the index of its last character.
+  const newline = (i: number) => {
+    line += 1;
+    return text[i] === "\r" && text[i + 1] === "\n" ? i + 1 : i;
+  };
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else if (char === "\n" || char === "\r") {
+        const end = newline(i);
+        field += text.slice(i, end + 1);
+        i = end;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      i = newline(i);
+      record.push(field);
+      records.push({ fields: record, line: start });
+      record = [];
+      field = "";
+      start = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push({ fields: record, line: start });
+  }
+  return records.filter((entry) => entry.fields.some((value) => value.trim()));
+}
+
+// Keeps output names safe as zip entries and unique within the batch: a numbered name that is
+// already taken, by a row or an earlier suffix, is skipped for the next number.
+function outputNames(rows: BatchRow[]) {
+  const taken = new Set<string>();
+  return rows.map((row, index) => {
+    const base = row.output.replace(/[^\w.-]+/g, "-").replace(/^-+|-+$/g, "") || `clip-${String(index + 1).padStart(3, "0")}`;
+    let name = base;
+    for (let count = 2; taken.has(name); count++) name = `${base}-${count}`;
+    taken.add(name);
+    return name;
+  });
+}
+
+// `where` names the row in errors: its position in a JSON array or its line in the CSV.
+function readRow(entry: Record<string, unknown>, where: string, errors: string[]): BatchRow | null {
+  const value = (key: string) => {
+    const raw = entry[key] ?? entry[key.toLowerCase()];
+    return typeof raw === "string" ? raw.trim() : typeof raw === "number" ? String(raw) : "";
+  };
+  const script = value("script");
+  if (!script) {
+    errors.push(`${where}: script is empty`);
+    return null;
+  }
+  const emotion = (value("emotion").toLowerCase() || "neutral") as Emotion;
+  if (!emotions.includes(emotion)) {
+    errors.push(`${where}: unknown emotion “${value("emotion")}”`);
+    return null;
+  }
+  return { script, emotion, avatarId: value("avatarId"), voice: value("voice"), output: value("output") };
+}
+
+// Accepts either a JSON array of row objects or a CSV with a header row naming the columns
+// (script is required; emotion, avatarId, voice and output are optional). Bad rows are reported
+// and skipped so the rest of the batch can still run.
+export function parseBatch(text: string): { rows: BatchRow[]; errors: string[] } {
+  const errors: string[] = [];
+  let entries: { entry: Record<string, unknown>; where: string }[];
+  const trimmed = text.trim();
+  if (trimmed.startsWith("[")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      return { rows: [], errors: ["Batch JSON could not be parsed"] };
+    }
+    if (!Array.isArray(parsed)) return { rows: [], errors: ["Batch JSON must be an array of rows"] };
+    entries = parsed.map((entry, index) => ({
+      entry: typeof entry === "object" && entry !== null ? (entry as Record<string, unknown>) : {},
+      where: `Row ${index + 1}`,
+    }));
+  } else {
+    // The untrimmed text, so line numbers match the file.
+    const [header, ...records] = parseCsv(text);
+    if (!header) return { rows: [], errors: [] };
+    const keys = header.fields.map((name) =>
+      columns.find((column) => column.toLowerCase() === name.trim().toLowerCase()),
+    );
+    if (!keys.includes("script")) return { rows: [], errors: ["CSV header needs a “script” column"] };
+    entries = records.map(({ fields, line }) => {
+      const entry: Record<string, unknown> = {};
+      keys.forEach((key, index) => {
+        if (key) entry[key] = fields[index] ?? "";
+      });
+      return { entry, where: `Line ${line}` };
+    });
+  }
+
+  const rows = entries.flatMap(({ entry, where }) => {
+    const row = readRow(entry, where, errors);
+    return row ? [row] : [];
+  });
+  const names = outputNames(rows);
+  return { rows: rows.map((row, index) => ({ ...row, output: names[index] })), errors };
+}
+
+export const createBatchJobs = (rows: BatchRow[]): BatchJob[] =>
+  rows.map((row, index) => ({
+    id: index + 1,
+    row,
+    status: "queued",
+    progress: 0,
+    error: null,
+    warning: null,
+    result: null,
+  }));
+
+// Listed in the archive next to the clips so a failed or retried job can be traced back to its
+// row. Offline text renders are silent, so the voice column is carried through for dubbing.
+export function batchManifest(jobs: BatchJob[]) {
+  return JSON.stringify(
+    jobs.map((job) => ({
+      file: job.result?.fileName ?? null,
+      status: job.status,
+      error: job.error,
+      warning: job.warning,
+      ...job.row,
+    })),
+    null,
+    2,
+  );
+}
@@ -0,0 +1,186 @@
+import type { TextTrack } from "./animation";
+
+export type WordTiming = {
+  text: string;
+  // Milliseconds from the start of the timeline.
+  start: number;
+  end: number;
+};
+
+export type CaptionCue = {
+  start: number;
+  end: number;
+  lines: string[];
+  words: WordTiming[];
+};
+
+export type CaptionOptions = {
+  maxLineLength: number;
+  maxLines: number;
+  // Milliseconds.
+  maxDuration: number;
+};
+
+export const defaultCaptionOptions: CaptionOptions = { maxLineLength: 42, maxLines: 2, maxDuration: 6000 };
+
+export type CaptionPosition = "top" | "middle" | "bottom";
+
+// Burned-in caption layer. Sizes are in stage pixels, so they scale with the export size.
+export type CaptionStyle = {
+  enabled: boolean;
+  position: CaptionPosition;
+  fontSize: number;
+  color: string;
+  highlight: string;
+  // Safe-area inset kept clear on every side of the frame.
+  margin: number;
+};
+
+export const defaultCaptionStyle: CaptionStyle = {
+  enabled: false,
+  position: "bottom",
+  fontSize: 26,
+  color: "#f8fafc",
+  highlight: "#facc15",
+  margin: 32,
+};
+
+// What the caption layer shows at one instant: the words of the current cue and which of them
+// is being spoken (-1 before the first, words.length once the cue is finished).
+export type CaptionFrame = {
+  words: string[];
+  active: number;
+};
+
+const SENTENCE_END = /[.!?…]["'”’)\]]*$/;
+// A pause this long reads as a break even mid-sentence.
+const PAUSE_BREAK = 800;
+
+// Each token starts where the previous segment ended; its spoken part excludes the trailing hold
+// (the pause-cue silence folded into the segment).
+export function wordTimings(tokens: string[], segments: number[], holds: number[] = []): WordTiming[] {
+  let cursor = 0;
+  return tokens.map((text, index) => {
+    const segment = segments[index] ?? 0;
+    const start = cursor;
+    cursor += segment;
+    return { text, start, end: start + Math.max(segment - (holds[index] ?? 0), 0) };
+  });
+}
+
+export function wrapLines(words: string[], maxLineLength: number) {
+  const lines: string[] = [];
+  words.forEach((word) => {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && last.length + 1 + word.length <= maxLineLength) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  });
+  return lines;
+}
+
+// Greedy grouping: a cue closes at a sentence end or a long pause, and before the next word would
+// overflow the line budget or stretch the cue past `maxDuration`.
+export function groupCaptions(words: WordTiming[], options: CaptionOptions = defaultCaptionOptions): CaptionCue[] {
+  const cues: CaptionCue[] = [];
+  let current: WordTiming[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    cues.push({
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      lines: wrapLines(
+        current.map((word) => word.text),
+        options.maxLineLength,
+      ),
+      words: current,
+    });
+    current = [];
+  };
+
+  words.forEach((word, index) => {
+    if (current.length > 0) {
+      const lines = wrapLines([...current, word].map((entry) => entry.text), options.maxLineLength);
+      if (lines.length > options.maxLines || word.end - current[0].start > options.maxDuration) flush();
+    }
+    current.push(word);
+    const next = words[index + 1];
+    if (SENTENCE_END.test(word.text) || (next && next.start - word.end >= PAUSE_BREAK)) flush();
+  });
+  flush();
+  return cues;
+}
+
+export type CaptionLayer = {
+  frame: CaptionFrame;
+  style: CaptionStyle;
+};
+
+// A cue stays up through the gap after it until the next one starts, so captions do not flicker
+// off during pauses; nothing is shown before the first word or after the last cue has lingered.
+const CAPTION_LINGER = 1200;
+
+export function captionFrameAt(cues: CaptionCue[], time: number): CaptionFrame | null {
+  let index = -1;
+  while (index + 1 < cues.length && cues[index + 1].start <= time) index += 1;
+  const cue = cues[index];
+  if (!cue) return null;
+  const next = cues[index + 1];
+  if (!next && time > cue.end + CAPTION_LINGER) return null;
+  let active = -1;
+  while (active + 1 < cue.words.length && cue.words[active + 1].start <= time) active += 1;
+  if (active === cue.words.length - 1 && time > cue.words[active].end) active = cue.words.length;
+  return { words: cue.words.map((word) => word.text), active };
+}
+
+// The burned-in layer for each instant of a text track; always null while captions are off.
+export const captionTrack = (
+  track: Pick<TextTrack, "tokens" | "segments" | "holds">,
+  options: CaptionOptions,
+  style: CaptionStyle,
+) => {
+  if (!style.enabled) return () => null;
+  const cues = groupCaptions(wordTimings(track.tokens, track.segments, track.holds), options);
+  return (time: number): CaptionLayer | null => {
+    const frame = captionFrameAt(cues, time);
+    return frame ? { frame, style } : null;
+  };
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+function timestamp(ms: number, separator: "," | ".") {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor(total / 60_000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+}
+
+export function toSrt(cues: CaptionCue[]) {
+  return cues
+    .map((cue, index) => `${index + 1}\n${timestamp(cue.start, ",")} --> ${timestamp(cue.end, ",")}\n${cue.lines.join("\n")}\n`)
+    .join("\n");
+}
+
+export function toWebVtt(cues: CaptionCue[]) {
+  const body = cues
+    .map((cue) => `${timestamp(cue.start, ".")} --> ${timestamp(cue.end, ".")}\n${cue.lines.join("\n")}\n`)
+    .join("\n");
+  return `WEBVTT\n\n${body}`;
+}
+
+export function toWordJson(words: WordTiming[], duration: number) {
+  return JSON.stringify(
+    {
+      unit: "ms",
+      duration: Math.round(duration),
+      words: words.map((word) => ({ text: word.text, start: Math.round(word.start), end: Math.round(word.end) })),
+    },
+    null,
+    2,
+  );
+}
@@ -0,0 +1,77 @@
+import type { AvatarStyle } from "./avatars";
+
+export type StyleColor = "base" | "secondary" | "highlight" | "accent" | "skin" | "clothing";
+
+export const styleColors: { key: StyleColor; label: string }[] = [
+  { key: "base", label: "Head" },
+  { key: "secondary", label: "Shadow" },
+  { key: "highlight", label: "Hair" },
+  { key: "accent", label: "Accent" },
+  { key: "skin", label: "Skin" },
+  { key: "clothing", label: "Clothing" },
+];
+
+const STORAGE_KEY = "lipforge.customAvatars";
+const CUSTOM_PREFIX = "custom-";
+// The stage appends two-digit alpha suffixes to these colours, so only #rrggbb works.
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export const isCustomStyle = (id: string) => id.startsWith(CUSTOM_PREFIX);
+
+const hexToRgba = (hex: string, alpha: number) => {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${(value >> 16) & 255},${(value >> 8) & 255},${value & 255},${alpha})`;
+};
+
+// Avatar Deck card background, derived the same way the built-in personas are styled.
+export const styleBackground = (style: Pick<AvatarStyle, "accent">) =>
+  `linear-gradient(135deg, ${hexToRgba(style.accent, 0.35)}, rgba(15,23,42,0.9))`;
+
+export function createCustomStyle(from: AvatarStyle, label = `${from.label} Copy`): AvatarStyle {
+  const suffix = Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+  return { ...from, id: `${CUSTOM_PREFIX}${suffix}`, label, background: styleBackground(from) };
+}
+
+// Validates a stored or imported style; built-in ids and malformed colours are rejected.
+export const readCustomStyle = (value: unknown): AvatarStyle | null => {
+  if (typeof value !== "object" || value === null) return null;
+  const entry = value as Record<string, unknown>;
+  if (typeof entry.id !== "string" || !isCustomStyle(entry.id)) return null;
+  if (!styleColors.every(({ key }) => typeof entry[key] === "string" && HEX_COLOR.test(entry[key] as string))) {
+    return null;
+  }
+  const style = entry as AvatarStyle;
+  return {
+    id: style.id,
+    label: typeof style.label === "string" && style.label.trim() ? style.label : "Custom",
+    description: typeof style.description === "string" ? style.description : "",
+    background: styleBackground(style),
+    base: style.base,
+    secondary: style.secondary,
+    highlight: style.highlight,
+    accent: style.accent,
+    skin: style.skin,
+    clothing: style.clothing,
+  };
+};
+
+export function loadCustomStyles(): AvatarStyle[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored.map(readCustomStyle).filter((style): style is AvatarStyle => !!style) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Storage can be full or blocked (private windows, quotas), so the failure is returned for the
+// designer to show rather than thrown. Null when the styles were stored.
+export function saveCustomStyles(styles: AvatarStyle[]): string | null {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(styles));
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
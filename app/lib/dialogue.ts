@@ -0,0 +1,132 @@
+import { defaultVisualState, type AvatarStyle, type AvatarVisualState, type Emotion } from "./avatars";
+import { textFrameState, type BlinkSchedule, type TextTrack } from "./animation";
+import { parseScriptCues, type SpeechChunk } from "./scriptCues";
+
+export type DialogueLine = {
+  speaker: string;
+  // Raw line text after the label; may still contain cue tags and SSML.
+  text: string;
+};
+
+export type Dialogue = {
+  speakers: string[];
+  // All lines joined into one script with a pause between turns, so a scene plays, seeks and
+  // renders through the same single text track as a monologue.
+  script: string;
+  // Spoken text of `script`, with cue tags stripped.
+  text: string;
+  // Speaker index for every token of the joined script's spoken text.
+  tokenSpeakers: number[];
+};
+
+export type SpeakerCast = {
+  avatarId: string;
+  voiceName: string | null;
+};
+
+const TURN_GAP = 350;
+// Upper-case labels only, so ordinary sentences such as "Note: ..." are never read as a speaker.
+const LABEL = "[A-Z][A-Z0-9_'-]*(?: [A-Z0-9_'-]+){0,2}";
+const LINE_PATTERN = new RegExp(`^\\s*(${LABEL}):\\s*(.*)$`);
+// "ALEX: Hi. / SAM: Hello." on one line is split into turns as well.
+const INLINE_TURN = new RegExp(`\\s+/\\s+(?=${LABEL}:)`, "g");
+
+const countTokens = (text: string) => (parseScriptCues(text).text.match(/\S+/g) ?? []).length;
+
+// Returns null when the script has no speaker labels, i.e. it is an ordinary monologue. Text
+// before the first label belongs to the first speaker; unlabelled lines continue the last one.
+export function parseDialogue(script: string): DialogueLine[] | null {
+  const lines: DialogueLine[] = [];
+  let preamble = "";
+  script
+    .split(/\r?\n/)
+    .flatMap((line) => line.split(INLINE_TURN))
+    .forEach((line) => {
+      const match = line.match(LINE_PATTERN);
+      if (match) {
+        lines.push({ speaker: match[1], text: match[2] });
+      } else if (lines.length > 0) {
+        const last = lines[lines.length - 1];
+        last.text = `${last.text}\n${line}`;
+      } else {
+        preamble = `${preamble}\n${line}`;
+      }
+    });
+  if (lines.length === 0) return null;
+  if (preamble.trim()) lines[0].text = `${preamble.trim()}\n${lines[0].text}`;
+  return lines.filter((line) => line.text.trim());
+}
+
+export function buildDialogue(lines: DialogueLine[]): Dialogue {
+  const speakers = Array.from(new Set(lines.map((line) => line.speaker)));
+  const script = lines.map((line) => line.text.trim()).join(` [pause ${TURN_GAP}ms]\n`);
+  const tokenSpeakers = lines.flatMap((line) =>
+    new Array<number>(countTokens(line.text)).fill(speakers.indexOf(line.speaker)),
+  );
+  const { text } = parseScriptCues(script);
+  return { speakers, script, text, tokenSpeakers };
+}
+
+// Uncast speakers default to the selected style for the first speaker and the next ones along the
+// deck for the rest.
+export const defaultCastStyle = (deck: AvatarStyle[], selected: AvatarStyle, index: number) =>
+  index === 0 ? selected : deck[(deck.indexOf(selected) + index) % deck.length];
+
+// Tags every utterance with its speaker's voice. Turns are separated by pauses, so no chunk ever
+// spans two speakers.
+export function castSpeech(chunks: SpeechChunk[], dialogue: Dialogue, cast: Record<string, SpeakerCast>): SpeechChunk[] {
+  const offsets = Array.from(dialogue.text.matchAll(/\S+/g), (match) => match.index ?? 0);
+  return chunks.map((chunk) => {
+    let token = 0;
+    while (token + 1 < offsets.length && offsets[token + 1] <= chunk.offset) token += 1;
+    const speaker = dialogue.speakers[dialogue.tokenSpeakers[token] ?? 0];
+    return { ...chunk, voice: cast[speaker]?.voiceName ?? null };
+  });
+}
+
+export function activeSpeaker(dialogue: Dialogue, segments: number[], time: number) {
+  let accumulated = 0;
+  for (let i = 0; i < segments.length; i++) {
+    accumulated += segments[i];
+    if (time < accumulated) return dialogue.tokenSpeakers[i] ?? 0;
+  }
+  return dialogue.tokenSpeakers[dialogue.tokenSpeakers.length - 1] ?? 0;
+}
+
+// An idle presenter keeps blinking, looks towards whoever is talking and mirrors their mood more
+// softly, nodding along with the speaker's head motion.
+function listenerState(speaker: AvatarVisualState, toward: number, time: number, blink: BlinkSchedule): AvatarVisualState {
+  return {
+    ...defaultVisualState,
+    emotion: speaker.emotion,
+    emotionIntensity: 0.2 + speaker.emotionIntensity * 0.4,
+    headTilt: speaker.headTilt * 0.3 + Math.sin(time / 1500) * 1.5,
+    headTurn: toward * 5 + Math.sin(time / 2100) * 1.5,
+    browLift: 0.2 + (speaker.browLift - 0.2) * 0.35,
+    eyeOffsetX: toward * 0.6 + Math.sin(time / 1700) * 0.15,
+    eyeOffsetY: Math.cos(time / 1900) * 0.15,
+    blink: blink(time),
+    handCycle: Math.sin(time / 2400) * 0.08,
+    shimmer: Math.sin(time / 320) * 0.5 + 0.5,
+    timelineLabel: "Listening",
+    audioLevel: 0,
+  };
+}
+
+export function dialogueFrameStates(
+  track: Pick<TextTrack, "tokens" | "segments" | "visemes" | "cues" | "prosody" | "duration">,
+  dialogue: Dialogue,
+  time: number,
+  baseEmotion: Emotion,
+  blinks: BlinkSchedule[],
+) {
+  const active = activeSpeaker(dialogue, track.segments, time);
+  // Each speaker only reacts to the emotion and gesture cues on their own lines, scripted or automatic.
+  const last = dialogue.tokenSpeakers.length - 1;
+  const cues = track.cues.filter((cue) => dialogue.tokenSpeakers[Math.min(cue.tokenIndex, last)] === active);
+  const speaking = textFrameState({ ...track, cues }, time, baseEmotion, blinks[active]);
+  const states = dialogue.speakers.map((_, index) =>
+    index === active ? speaking : listenerState(speaking, Math.sign(active - index), time, blinks[index]),
+  );
+  return { active, states };
+}
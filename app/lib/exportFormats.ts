@@ -0,0 +1,89 @@
+import { renderGif, renderMP4, renderPngSequence, renderWebM, type OfflineRenderOptions } from "./offlineRender";
+
+export type ExportFormat = "webm" | "mp4" | "gif" | "png";
+
+export type ExportSettings = {
+  size: number;
+  fps: number;
+};
+
+export type ExportPreset = {
+  id: ExportFormat;
+  label: string;
+  extension: string;
+  hasAudio: boolean;
+  // Whether a transparent background survives into the file.
+  hasAlpha: boolean;
+  // Square output edge lengths in pixels; the stage is drawn scaled to fit.
+  sizes: number[];
+  fpsOptions: number[];
+  defaults: ExportSettings;
+};
+
+export const exportPresets: Record<ExportFormat, ExportPreset> = {
+  webm: {
+    id: "webm",
+    label: "WebM",
+    extension: "webm",
+    hasAudio: true,
+    hasAlpha: true,
+    sizes: [360, 520, 720, 1080],
+    fpsOptions: [24, 30, 60],
+    defaults: { size: 520, fps: 30 },
+  },
+  mp4: {
+    id: "mp4",
+    label: "MP4",
+    extension: "mp4",
+    hasAudio: true,
+    hasAlpha: false,
+    sizes: [360, 520, 720, 1080],
+    fpsOptions: [24, 30, 60],
+    defaults: { size: 720, fps: 30 },
+  },
+  gif: {
+    id: "gif",
+    label: "GIF",
+    extension: "gif",
+    hasAudio: false,
+    hasAlpha: false,
+    sizes: [240, 320, 480],
+    fpsOptions: [10, 12, 15, 20],
+    defaults: { size: 320, fps: 15 },
+  },
+  png: {
+    id: "png",
+    label: "PNG sequence",
+    extension: "zip",
+    hasAudio: true,
+    hasAlpha: true,
+    sizes: [520, 1080, 2048],
+    fpsOptions: [24, 30, 60],
+    defaults: { size: 1080, fps: 30 },
+  },
+};
+
+export const exportFormats = Object.values(exportPresets);
+
+export const defaultExportSettings = (): Record<ExportFormat, ExportSettings> => ({
+  webm: { ...exportPresets.webm.defaults },
+  mp4: { ...exportPresets.mp4.defaults },
+  gif: { ...exportPresets.gif.defaults },
+  png: { ...exportPresets.png.defaults },
+});
+
+export function renderExport(
+  format: ExportFormat,
+  options: OfflineRenderOptions & { audio?: AudioBuffer | null },
+): Promise<Blob> {
+  switch (format) {
+    case "mp4":
+      return renderMP4(options);
+    case "gif":
+      return renderGif(options);
+    case "png":
+      return renderPngSequence(options);
+    default:
+      return renderWebM(options);
+  }
+}
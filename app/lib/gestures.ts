@@ -0,0 +1,318 @@
+export type Gesture = "wave" | "point-left" | "point-right" | "open-palms" | "nod" | "shake" | "shrug";
+
+// Angles in degrees. `raise` swings the upper arm out from hanging straight down (0) through
+// horizontal (90) to straight up (180); `bend` folds the forearm further the same way, and a
+// negative bend brings it back in across the body.
+export type ArmPose = { raise: number; bend: number };
+
+// 0–1 each: a relaxed hand, fingers spread open, or the index finger extended.
+export type HandPose = { open: number; point: number };
+
+// Degrees: nod (positive dips the chin), turn and tilt. Frame builders fold yaw and roll into
+// headTurn and headTilt; pitch has no channel of its own, so the renderer draws it from here.
+export type HeadPose = { pitch: number; yaw: number; roll: number };
+
+// Sides are as seen by the viewer, so "point-left" points to the left of the frame.
+export type BodyPose = {
+  leftArm: ArmPose;
+  rightArm: ArmPose;
+  leftHand: HandPose;
+  rightHand: HandPose;
+  head: HeadPose;
+  // 0 resting, 1 fully raised (shrug).
+  shoulders: number;
+};
+
+type Keyframe<T> = { at: number; value: T };
+
+// Every track is optional; limbs a gesture does not mention stay in the rest pose.
+type GestureClip = {
+  duration: number;
+  leftArm?: Keyframe<ArmPose>[];
+  rightArm?: Keyframe<ArmPose>[];
+  leftHand?: Keyframe<HandPose>[];
+  rightHand?: Keyframe<HandPose>[];
+  head?: Keyframe<HeadPose>[];
+  shoulders?: Keyframe<number>[];
+};
+
+export const gestureLabels: Record<Gesture, string> = {
+  wave: "Wave",
+  "point-left": "Point left",
+  "point-right": "Point right",
+  "open-palms": "Open palms",
+  nod: "Nod",
+  shake: "Head shake",
+  shrug: "Shrug",
+};
+
+export const gestureNames = Object.keys(gestureLabels) as Gesture[];
+
+// Forearms folded in front of the body, hands just inside the bottom of the frame.
+const restArm: ArmPose = { raise: 8, bend: -55 };
+const restHand: HandPose = { open: 0.2, point: 0 };
+const restHead: HeadPose = { pitch: 0, yaw: 0, roll: 0 };
+
+// The old two-number hand bob, re-expressed as arm swing: the arms move in opposition.
+export function restPose(handCycle = 0): BodyPose {
+  return {
+    leftArm: { raise: restArm.raise + handCycle * 10, bend: restArm.bend + handCycle * 14 },
+    rightArm: { raise: restArm.raise - handCycle * 8, bend: restArm.bend - handCycle * 10 },
+    leftHand: restHand,
+    rightHand: restHand,
+    head: restHead,
+    shoulders: 0,
+  };
+}
+
+const head = (pitch: number, yaw = 0, roll = 0): HeadPose => ({ pitch, yaw, roll });
+
+const clips: Record<Gesture, GestureClip> = {
+  wave: {
+    duration: 1800,
+    rightArm: [
+      { at: 0, value: restArm },
+      { at: 0.18, value: { raise: 105, bend: 60 } },
+      { at: 0.32, value: { raise: 105, bend: 85 } },
+      { at: 0.46, value: { raise: 105, bend: 55 } },
+      { at: 0.6, value: { raise: 105, bend: 85 } },
+      { at: 0.74, value: { raise: 105, bend: 60 } },
+      { at: 1, value: restArm },
+    ],
+    rightHand: [
+      { at: 0, value: restHand },
+      { at: 0.18, value: { open: 1, point: 0 } },
+      { at: 0.74, value: { open: 1, point: 0 } },
+      { at: 1, value: restHand },
+    ],
+    head: [
+      { at: 0, value: restHead },
+      { at: 0.3, value: head(0, 0, 4) },
+      { at: 1, value: restHead },
+    ],
+  },
+  "point-left": {
+    duration: 1500,
+    leftArm: [
+      { at: 0, value: restArm },
+      { at: 0.25, value: { raise: 82, bend: 6 } },
+      { at: 0.75, value: { raise: 84, bend: 4 } },
+      { at: 1, value: restArm },
+    ],
+    leftHand: [
+      { at: 0, value: restHand },
+      { at: 0.25, value: { open: 0, point: 1 } },
+      { at: 0.75, value: { open: 0, point: 1 } },
+      { at: 1, value: restHand },
+    ],
+    head: [
+      { at: 0, value: restHead },
+      { at: 0.3, value: head(0, -6, -2) },
+      { at: 0.75, value: head(0, -6, -2) },
+      { at: 1, value: restHead },
+    ],
+  },
+  "point-right": {
+    duration: 1500,
+    rightArm: [
+      { at: 0, value: restArm },
+      { at: 0.25, value: { raise: 82, bend: 6 } },
+      { at: 0.75, value: { raise: 84, bend: 4 } },
+      { at: 1, value: restArm },
+    ],
+    rightHand: [
+      { at: 0, value: restHand },
+      { at: 0.25, value: { open: 0, point: 1 } },
+      { at: 0.75, value: { open: 0, point: 1 } },
+      { at: 1, value: restHand },
+    ],
+    head: [
+      { at: 0, value: restHead },
+      { at: 0.3, value: head(0, 6, 2) },
+      { at: 0.75, value: head(0, 6, 2) },
+      { at: 1, value: restHead },
+    ],
+  },
+  "open-palms": {
+    duration: 1400,
+    leftArm: [
+      { at: 0, value: restArm },
+      { at: 0.3, value: { raise: 38, bend: 62 } },
+      { at: 0.7, value: { raise: 42, bend: 58 } },
+      { at: 1, value: restArm },
+    ],
+    rightArm: [
+      { at: 0, value: restArm },
+      { at: 0.3, value: { raise: 38, bend: 62 } },
+      { at: 0.7, value: { raise: 42, bend: 58 } },
+      { at: 1, value: restArm },
+    ],
+    leftHand: [
+      { at: 0, value: restHand },
+      { at: 0.3, value: { open: 1, point: 0 } },
+      { at: 0.7, value: { open: 1, point: 0 } },
+      { at: 1, value: restHand },
+    ],
+    rightHand: [
+      { at: 0, value: restHand },
+      { at: 0.3, value: { open: 1, point: 0 } },
+      { at: 0.7, value: { open: 1, point: 0 } },
+      { at: 1, value: restHand },
+    ],
+    head: [
+      { at: 0, value: restHead },
+      { at: 0.35, value: head(-3) },
+      { at: 1, value: restHead },
+    ],
+  },
+  nod: {
+    duration: 1100,
+    head: [
+      { at: 0, value: restHead },
+      { at: 0.2, value: head(9) },
+      { at: 0.42, value: head(-2) },
+      { at: 0.64, value: head(7) },
+      { at: 1, value: restHead },
+    ],
+  },
+  shake: {
+    duration: 1300,
+    head: [
+      { at: 0, value: restHead },
+      { at: 0.16, value: head(0, -10) },
+      { at: 0.38, value: head(0, 10) },
+      { at: 0.6, value: head(0, -8) },
+      { at: 0.8, value: head(0, 5) },
+      { at: 1, value: restHead },
+    ],
+  },
+  shrug: {
+    duration: 1500,
+    leftArm: [
+      { at: 0, value: restArm },
+      { at: 0.3, value: { raise: 28, bend: 74 } },
+      { at: 0.65, value: { raise: 28, bend: 74 } },
+      { at: 1, value: restArm },
+    ],
+    rightArm: [
+      { at: 0, value: restArm },
+      { at: 0.3, value: { raise: 28, bend: 74 } },
+      { at: 0.65, value: { raise: 28, bend: 74 } },
+      { at: 1, value: restArm },
+    ],
+    leftHand: [
+      { at: 0, value: restHand },
+      { at: 0.3, value: { open: 0.9, point: 0 } },
+      { at: 0.65, value: { open: 0.9, point: 0 } },
+      { at: 1, value: restHand },
+    ],
+    rightHand: [
+      { at: 0, value: restHand },
+      { at: 0.3, value: { open: 0.9, point: 0 } },
+      { at: 0.65, value: { open: 0.9, point: 0 } },
+      { at: 1, value: restHand },
+    ],
+    head: [
+      { at: 0, value: restHead },
+      { at: 0.3, value: head(-2, 0, 6) },
+      { at: 0.65, value: head(-2, 0, 6) },
+      { at: 1, value: restHead },
+    ],
+    shoulders: [
+      { at: 0, value: 0 },
+      { at: 0.3, value: 1 },
+      { at: 0.65, value: 1 },
+      { at: 1, value: 0 },
+    ],
+  },
+};
+
+export const gestureDuration = (gesture: Gesture) => clips[gesture].duration;
+
+const smooth = (t: number) => t * t * (3 - 2 * t);
+
+function mixRecord<T extends Record<string, number>>(from: T, to: T, weight: number): T {
+  const result = { ...from };
+  (Object.keys(from) as (keyof T)[]).forEach((key) => {
+    result[key] = (from[key] + (to[key] - from[key]) * weight) as T[keyof T];
+  });
+  return result;
+}
+
+// Eased between neighbouring keyframes. The first and last keyframes stand for `base`, so a
+// gesture leaves from and returns to whatever pose it was layered over.
+function sampleTrack<T>(track: Keyframe<T>[] | undefined, at: number, base: T, mix: (a: T, b: T, w: number) => T): T {
+  if (!track || track.length < 2 || at <= track[0].at || at >= track[track.length - 1].at) return base;
+  let index = 0;
+  while (index + 1 < track.length && track[index + 1].at <= at) index += 1;
+  const value = (i: number) => (i === 0 || i === track.length - 1 ? base : track[i].value);
+  return mix(value(index), value(index + 1), smooth((at - track[index].at) / (track[index + 1].at - track[index].at)));
+}
+
+const mixNumber = (a: number, b: number, w: number) => a + (b - a) * w;
+
+// Pose `since` ms into a gesture, layered over `base` (usually the rest pose); null once the
+// gesture has played out.
+export function sampleGesture(gesture: Gesture, since: number, base: BodyPose): BodyPose | null {
+  const clip = clips[gesture];
+  if (since < 0 || since > clip.duration) return null;
+  const at = since / clip.duration;
+  const headOffset = sampleTrack(clip.head, at, restHead, mixRecord);
+  return {
+    leftArm: sampleTrack(clip.leftArm, at, base.leftArm, mixRecord),
+    rightArm: sampleTrack(clip.rightArm, at, base.rightArm, mixRecord),
+    leftHand: sampleTrack(clip.leftHand, at, base.leftHand, mixRecord),
+    rightHand: sampleTrack(clip.rightHand, at, base.rightHand, mixRecord),
+    head: {
+      pitch: base.head.pitch + headOffset.pitch,
+      yaw: base.head.yaw + headOffset.yaw,
+      roll: base.head.roll + headOffset.roll,
+    },
+    shoulders: sampleTrack(clip.shoulders, at, base.shoulders, mixNumber),
+  };
+}
+
+export function mixPose(from: BodyPose, to: BodyPose, weight: number): BodyPose {
+  return {
+    leftArm: mixRecord(from.leftArm, to.leftArm, weight),
+    rightArm: mixRecord(from.rightArm, to.rightArm, weight),
+    leftHand: mixRecord(from.leftHand, to.leftHand, weight),
+    rightHand: mixRecord(from.rightHand, to.rightHand, weight),
+    head: mixRecord(from.head, to.head, weight),
+    shoulders: mixNumber(from.shoulders, to.shoulders, weight),
+  };
+}
+
+const SENTENCE_END = /[.!?…]["'”’)\]]*$/;
+const QUESTION_END = /\?["'”’)\]]*$/;
+
+export type GesturePlanCue = { tokenIndex: number; gesture: Gesture };
+
+// Automatic beats for a script with no choreography of its own: open palms as a question lands
+// and a nod at the start of each new sentence. A beat is dropped while another gesture (planned
+// or scripted) would still be playing, so scripted gestures always win.
+export function planGestures(tokens: string[], segments: number[], scripted: GesturePlanCue[]): GesturePlanCue[] {
+  const starts: number[] = [];
+  let cursor = 0;
+  segments.forEach((segment) => {
+    starts.push(cursor);
+    cursor += segment;
+  });
+  const span = (cue: GesturePlanCue) => {
+    const start = starts[cue.tokenIndex] ?? cursor;
+    return { start, end: start + gestureDuration(cue.gesture) };
+  };
+  const busy = scripted.map(span);
+  const planned: GesturePlanCue[] = [];
+  const tryAdd = (tokenIndex: number, gesture: Gesture) => {
+    const next = span({ tokenIndex, gesture });
+    if (busy.some((taken) => next.start < taken.end && next.end > taken.start)) return;
+    busy.push(next);
+    planned.push({ tokenIndex, gesture });
+  };
+  tokens.forEach((token, index) => {
+    if (QUESTION_END.test(token)) tryAdd(index, "open-palms");
+    else if (index > 0 && SENTENCE_END.test(tokens[index - 1])) tryAdd(index, "nod");
+  });
+  return planned;
+}
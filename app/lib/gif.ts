@@ -0,0 +1,186 @@
+export type GifEncoder = {
+  // Delay is in GIF units (hundredths of a second).
+  addFrame: (rgba: Uint8ClampedArray, delay: number) => void;
+  finish: () => Blob;
+};
+
+type ColorBox = {
+  keys: number[];
+  count: number;
+};
+
+const channel = (key: number, shift: number) => (key >> shift) & 31;
+
+// Median cut over a 15-bit colour histogram. The avatar is mostly flat fills and gradients,
+// so 256 colours per frame chosen this way look clean without dithering.
+function buildPalette(histogram: Uint32Array) {
+  const keys: number[] = [];
+  let total = 0;
+  for (let key = 0; key < histogram.length; key++) {
+    if (histogram[key] > 0) {
+      keys.push(key);
+      total += histogram[key];
+    }
+  }
+  const boxes: ColorBox[] = [{ keys, count: total }];
+
+  while (boxes.length < 256) {
+    let target = -1;
+    let targetScore = 0;
+    let targetShift = 0;
+    boxes.forEach((box, index) => {
+      if (box.keys.length < 2) return;
+      [10, 5, 0].forEach((shift) => {
+        let min = 31;
+        let max = 0;
+        box.keys.forEach((key) => {
+          const value = channel(key, shift);
+          if (value < min) min = value;
+          if (value > max) max = value;
+        });
+        const score = (max - min) * Math.sqrt(box.count);
+        if (score > targetScore) {
+          target = index;
+          targetScore = score;
+          targetShift = shift;
+        }
+      });
+    });
+    if (target < 0) break;
+
+    const box = boxes[target];
+    box.keys.sort((a, b) => channel(a, targetShift) - channel(b, targetShift));
+    let running = 0;
+    let split = 1;
+    for (; split < box.keys.length - 1; split++) {
+      running += histogram[box.keys[split - 1]];
+      if (running >= box.count / 2) break;
+    }
+    const left = box.keys.slice(0, split);
+    const right = box.keys.slice(split);
+    const countOf = (list: number[]) => list.reduce((acc, key) => acc + histogram[key], 0);
+    boxes.splice(target, 1, { keys: left, count: countOf(left) }, { keys: right, count: countOf(right) });
+  }
+
+  const palette = new Uint8Array(256 * 3);
+  const lookup = new Uint8Array(32768);
+  boxes.forEach((box, index) => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    box.keys.forEach((key) => {
+      const weight = histogram[key];
+      r += channel(key, 10) * weight;
+      g += channel(key, 5) * weight;
+      b += channel(key, 0) * weight;
+      lookup[key] = index;
+    });
+    const count = box.count || 1;
+    palette[index * 3] = Math.round((r / count) * 8.226);
+    palette[index * 3 + 1] = Math.round((g / count) * 8.226);
+    palette[index * 3 + 2] = Math.round((b / count) * 8.226);
+  });
+  return { palette, lookup };
+}
+
+function lzw(indices: Uint8Array, output: number[]) {
+  const minCodeSize = 8;
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let dictionary = new Map<number, number>();
+
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      bytes.push(buffer & 0xff);
+      buffer >>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const value = indices[i];
+    const key = (prefix << 8) | value;
+    const existing = dictionary.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode < 4096) {
+      dictionary.set(key, nextCode);
+      if (nextCode === 1 << codeSize && codeSize < 12) codeSize += 1;
+      nextCode += 1;
+    } else {
+      emit(clearCode);
+      dictionary = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = value;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bits > 0) bytes.push(buffer & 0xff);
+
+  output.push(minCodeSize);
+  for (let i = 0; i < bytes.length; i += 255) {
+    const block = bytes.slice(i, i + 255);
+    output.push(block.length, ...block);
+  }
+  output.push(0);
+}
+
+export function createGifEncoder(width: number, height: number): GifEncoder {
+  const bytes: number[] = [];
+  const u16 = (value: number) => bytes.push(value & 0xff, (value >> 8) & 0xff);
+
+  bytes.push(...Array.from("GIF89a", (char) => char.charCodeAt(0)));
+  u16(width);
+  u16(height);
+  bytes.push(0x00, 0x00, 0x00);
+  // NETSCAPE2.0 application extension: loop forever.
+  bytes.push(0x21, 0xff, 0x0b, ...Array.from("NETSCAPE2.0", (char) => char.charCodeAt(0)), 0x03, 0x01, 0x00, 0x00, 0x00);
+
+  return {
+    addFrame(rgba, delay) {
+      const histogram = new Uint32Array(32768);
+      const keys = new Uint16Array(width * height);
+      for (let i = 0; i < keys.length; i++) {
+        const key = ((rgba[i * 4] >> 3) << 10) | ((rgba[i * 4 + 1] >> 3) << 5) | (rgba[i * 4 + 2] >> 3);
+        keys[i] = key;
+        histogram[key] += 1;
+      }
+      const { palette, lookup } = buildPalette(histogram);
+      const indices = new Uint8Array(keys.length);
+      for (let i = 0; i < keys.length; i++) {
+        indices[i] = lookup[keys[i]];
+      }
+
+      bytes.push(0x21, 0xf9, 0x04, 0x04);
+      u16(Math.max(1, delay));
+      bytes.push(0x00, 0x00);
+
+      bytes.push(0x2c);
+      u16(0);
+      u16(0);
+      u16(width);
+      u16(height);
+      bytes.push(0x87);
+      for (let i = 0; i < palette.length; i++) bytes.push(palette[i]);
+      lzw(indices, bytes);
+    },
+    finish() {
+      bytes.push(0x3b);
+      return new Blob([new Uint8Array(bytes)], { type: "image/gif" });
+    },
+  };
+}
@@ -0,0 +1,138 @@
+import type { AvatarVisualState, Emotion } from "./avatars";
+import { createBlinkSchedule, createRng, type Rng } from "./animation";
+import { mixPose, restPose } from "./gestures";
+
+// Everything the presenter does while nobody is talking, as a pure function of time: the same
+// seed always breathes, blinks and glances the same way, so exports stay reproducible.
+export type IdleBehavior = (time: number, emotion: Emotion) => AvatarVisualState;
+
+type Glance = { x: number; y: number; turn: number };
+
+type MicroExpression = { strength: number };
+
+// How long a speaking timeline takes to take over from idle at its start, and to hand back at
+// its end.
+export const IDLE_BLEND = 450;
+
+const BREATH_PERIOD = 4200;
+const GLANCE_LENGTH = 1100;
+const MICRO_LENGTH = 1400;
+
+// Like blinks, events are drawn lazily in time order and looked up by binary search, so any
+// time can be sampled in any order.
+function createSchedule<T>(rng: Rng, first: number, gap: number, spread: number, make: (rng: Rng) => T) {
+  const events = [{ onset: first, value: make(rng) }];
+  return (time: number) => {
+    while (events[events.length - 1].onset <= time) {
+      events.push({ onset: events[events.length - 1].onset + gap + rng() * spread, value: make(rng) });
+    }
+    let low = 0;
+    let high = events.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (events[mid].onset <= time) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    const event = events[low];
+    return event.onset <= time ? { since: time - event.onset, value: event.value } : null;
+  };
+}
+
+// 0 → 1 → 0 over `length` ms with eased attack and release and a flat hold between.
+const pulse = (since: number, length: number, attack: number, release: number) => {
+  if (since < 0 || since > length) return 0;
+  const edge = since < attack ? since / attack : since > length - release ? (length - since) / release : 1;
+  return edge * edge * (3 - 2 * edge);
+};
+
+// Small, mood-coloured twitches: a smile flicker when happy, a brow knit when angry, and so on.
+const microOffsets = (emotion: Emotion, amount: number) => {
+  switch (emotion) {
+    case "happy":
+      return { mouthWidth: 0.08 * amount, browLift: 0.12 * amount, headTilt: 1.5 * amount };
+    case "sad":
+      return { mouthWidth: -0.05 * amount, browLift: 0.18 * amount, headTilt: -2 * amount };
+    case "angry":
+      return { mouthWidth: -0.04 * amount, browLift: -0.22 * amount, headTilt: 0 };
+    case "surprised":
+      return { mouthWidth: 0, browLift: 0.35 * amount, headTilt: 0 };
+    default:
+      return { mouthWidth: 0.04 * amount, browLift: 0.1 * amount, headTilt: 0 };
+  }
+};
+
+export function createIdleBehavior(seed: number): IdleBehavior {
+  // The blink curve matches the speaking timelines' for the same seed, so blending the two never
+  // doubles or cuts a blink.
+  const blink = createBlinkSchedule(seed);
+  const glances = createSchedule<Glance>(createRng(seed + 101), 2600, 3000, 4200, (rng) => ({
+    x: (rng() * 2 - 1) * 0.9,
+    y: (rng() * 2 - 1) * 0.4,
+    turn: (rng() * 2 - 1) * 5,
+  }));
+  const micro = createSchedule<MicroExpression>(createRng(seed + 202), 6500, 7000, 6000, (rng) => ({
+    strength: 0.5 + rng() * 0.5,
+  }));
+
+  return (time, emotion) => {
+    const breath = Math.sin((time / BREATH_PERIOD) * Math.PI * 2);
+    const glance = glances(time);
+    const look = glance ? pulse(glance.since, GLANCE_LENGTH, 180, 260) : 0;
+    const expression = micro(time);
+    const flicker = expression ? pulse(expression.since, MICRO_LENGTH, 350, 600) * expression.value.strength : 0;
+    const offsets = microOffsets(emotion, flicker);
+    return {
+      emotion,
+      emotionIntensity: 0.25 + breath * 0.04 + flicker * 0.25,
+      mouthOpenness: 0,
+      mouthWidth: 0.5 + offsets.mouthWidth,
+      mouthRoundness: 0.2,
+      headTilt: breath * 1.2 + Math.sin(time / 5300) * 1.5 + offsets.headTilt,
+      headTurn: Math.sin(time / 6700) * 2 + look * (glance?.value.turn ?? 0),
+      browLift: 0.2 + breath * 0.03 + offsets.browLift,
+      eyeOffsetX: Math.sin(time / 3100) * 0.12 + look * (glance?.value.x ?? 0),
+      eyeOffsetY: Math.cos(time / 3700) * 0.08 + look * (glance?.value.y ?? 0),
+      blink: blink(time),
+      handCycle: breath * 0.12,
+      shimmer: Math.sin(time / 320) * 0.5 + 0.5,
+      timelineLabel: "Idle",
+      audioLevel: 0,
+      pose: restPose(breath * 0.12),
+    };
+  };
+}
+
+const mix = (from: number, to: number, weight: number) => from + (to - from) * weight;
+
+// How much of a timeline of `duration` ms is showing at `time`; idle covers the rest.
+export function speakingWeight(time: number, duration: number, fade = IDLE_BLEND) {
+  const edge = Math.max(0, Math.min(1, Math.min(time, duration - time) / fade));
+  return edge * edge * (3 - 2 * edge);
+}
+
+// Crossfades head, eyes, brows and hands from idle into a timeline frame and back out again. The
+// mouth always follows the timeline, so the first and last syllables are never swallowed.
+export function blendWithIdle(
+  speaking: AvatarVisualState,
+  idle: AvatarVisualState,
+  time: number,
+  duration: number,
+): AvatarVisualState {
+  const weight = speakingWeight(time, duration);
+  if (weight >= 1) return speaking;
+  return {
+    ...speaking,
+    emotionIntensity: mix(idle.emotionIntensity, speaking.emotionIntensity, weight),
+    headTilt: mix(idle.headTilt, speaking.headTilt, weight),
+    headTurn: mix(idle.headTurn, speaking.headTurn, weight),
+    browLift: mix(idle.browLift, speaking.browLift, weight),
+    eyeOffsetX: mix(idle.eyeOffsetX, speaking.eyeOffsetX, weight),
+    eyeOffsetY: mix(idle.eyeOffsetY, speaking.eyeOffsetY, weight),
+    blink: Math.max(idle.blink * (1 - weight), speaking.blink),
+    handCycle: mix(idle.handCycle, speaking.handCycle, weight),
+    pose: mixPose(idle.pose ?? restPose(idle.handCycle), speaking.pose ?? restPose(speaking.handCycle), weight),
+  };
+}
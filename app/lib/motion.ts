@@ -0,0 +1,116 @@
+import type { AvatarVisualState } from "./avatars";
+
+export type MotionChannel = "mouth" | "head" | "brows" | "gaze";
+
+// `stiffness` pulls toward the target (per second squared); `damping` is the ratio to critical
+// damping, so 1 settles as fast as possible without overshoot, lower values bounce and higher
+// values drag.
+export type SpringSettings = { stiffness: number; damping: number };
+
+export type MotionSettings = Record<MotionChannel, SpringSettings>;
+
+// Eases the drivers' raw targets toward the stage. Everything not listed in a channel (blink,
+// emotion, hands, labels) passes straight through.
+export type MotionLayer = {
+  step: (target: AvatarVisualState, now: number, settings: MotionSettings) => AvatarVisualState;
+  // Jumps to `target` with no velocity; used for seeks so a scrubbed frame is exact.
+  snap: (target: AvatarVisualState) => AvatarVisualState;
+};
+
+type SpringField =
+  | "mouthOpenness"
+  | "mouthWidth"
+  | "mouthRoundness"
+  | "headTilt"
+  | "headTurn"
+  | "browLift"
+  | "eyeOffsetX"
+  | "eyeOffsetY";
+
+const channelFields: Record<MotionChannel, SpringField[]> = {
+  mouth: ["mouthOpenness", "mouthWidth", "mouthRoundness"],
+  head: ["headTilt", "headTurn"],
+  brows: ["browLift"],
+  gaze: ["eyeOffsetX", "eyeOffsetY"],
+};
+
+export const motionChannels = Object.keys(channelFields) as MotionChannel[];
+
+export const motionChannelLabels: Record<MotionChannel, string> = {
+  mouth: "Mouth",
+  head: "Head",
+  brows: "Brows",
+  gaze: "Gaze",
+};
+
+// The mouth is stiff enough to keep lip-sync within a frame or two; the head is loose so it
+// sways instead of twitching.
+export const defaultMotionSettings = (): MotionSettings => ({
+  mouth: { stiffness: 1600, damping: 1 },
+  head: { stiffness: 120, damping: 1 },
+  brows: { stiffness: 300, damping: 1 },
+  gaze: { stiffness: 400, damping: 1 },
+});
+
+export const STIFFNESS_RANGE = { min: 20, max: 2000 };
+export const DAMPING_RANGE = { min: 0.3, max: 2 };
+
+// Semi-implicit Euler is only stable for small steps, so long frames are split up.
+const MAX_STEP = 1 / 240;
+// After a gap this long (a hidden tab, a paused timeline) the spring would only be catching up
+// on stale motion, so it snaps instead.
+const MAX_GAP = 0.25;
+
+const unitFields = new Set<SpringField>(channelFields.mouth);
+
+export function createMotionLayer(): MotionLayer {
+  let position: Record<SpringField, number> | null = null;
+  let velocity: Record<SpringField, number> | null = null;
+  let last: number | null = null;
+
+  const snap = (target: AvatarVisualState) => {
+    position = {} as Record<SpringField, number>;
+    velocity = {} as Record<SpringField, number>;
+    for (const fields of Object.values(channelFields)) {
+      for (const field of fields) {
+        position[field] = target[field];
+        velocity[field] = 0;
+      }
+    }
+    last = null;
+    return target;
+  };
+
+  const step = (target: AvatarVisualState, now: number, settings: MotionSettings) => {
+    const dt = last === null ? Infinity : (now - last) / 1000;
+    if (!position || !velocity || dt > MAX_GAP) {
+      snap(target);
+      last = now;
+      return target;
+    }
+    last = now;
+    const steps = Math.max(1, Math.ceil(dt / MAX_STEP));
+    const h = dt / steps;
+    const next = { ...target };
+    for (const channel of motionChannels) {
+      const { stiffness, damping } = settings[channel];
+      const friction = 2 * Math.sqrt(stiffness) * damping;
+      for (const field of channelFields[channel]) {
+        let x = position[field];
+        let v = velocity[field];
+        for (let i = 0; i < steps; i++) {
+          v += (stiffness * (target[field] - x) - friction * v) * h;
+          x += v * h;
+        }
+        // An underdamped mouth can swing past shut or fully open; the face has no shape for that.
+        if (unitFields.has(field)) x = Math.max(0, Math.min(1, x));
+        position[field] = x;
+        velocity[field] = v;
+        next[field] = x;
+      }
+    }
+    return next;
+  };
+
+  return { step, snap };
+}
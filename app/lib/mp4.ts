@@ -0,0 +1,268 @@
+import type { MuxChunk } from "./webm";
+
+export type MP4VideoTrack = {
+  width: number;
+  height: number;
+  // avcC record from the encoder's decoder config (`avc: { format: "avc" }`).
+  description: Uint8Array;
+  chunks: MuxChunk[];
+};
+
+export type MP4AudioTrack = {
+  sampleRate: number;
+  channels: number;
+  // AudioSpecificConfig; built from sampleRate/channels when the encoder does not supply one.
+  description: Uint8Array | null;
+  chunks: MuxChunk[];
+};
+
+const encoder = new TextEncoder();
+
+const VIDEO_TIMESCALE = 90_000;
+const MOVIE_TIMESCALE = 1000;
+const AAC_FRAME = 1024;
+const AAC_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+const MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+function concat(parts: Uint8Array[]) {
+  const length = parts.reduce((acc, part) => acc + part.length, 0);
+  const output = new Uint8Array(length);
+  let offset = 0;
+  parts.forEach((part) => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+}
+
+function u8(...values: number[]) {
+  return new Uint8Array(values);
+}
+
+function u16(...values: number[]) {
+  const bytes = new Uint8Array(values.length * 2);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, index) => view.setUint16(index * 2, value));
+  return bytes;
+}
+
+function u32(...values: number[]) {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, index) => view.setUint32(index * 4, value >>> 0));
+  return bytes;
+}
+
+function box(type: string, ...parts: Uint8Array[]) {
+  const payload = concat(parts);
+  return concat([u32(payload.length + 8), encoder.encode(type), payload]);
+}
+
+function fullBox(type: string, flags: number, ...parts: Uint8Array[]) {
+  return box(type, u32(flags & 0xffffff), ...parts);
+}
+
+function descriptor(tag: number, ...parts: Uint8Array[]) {
+  const payload = concat(parts);
+  return concat([u8(tag, payload.length), payload]);
+}
+
+export function audioSpecificConfig(sampleRate: number, channels: number) {
+  const index = AAC_RATES.indexOf(sampleRate);
+  if (index < 0) throw new Error(`AAC does not support ${sampleRate} Hz`);
+  // AAC-LC (object type 2), frequency index, channel configuration.
+  return u8((2 << 3) | (index >> 1), ((index & 1) << 7) | (channels << 3));
+}
+
+// Converts microsecond timestamps into per-sample durations in the track timescale; the last
+// sample repeats the previous duration (or the fallback for single-sample tracks).
+function sampleDurations(chunks: MuxChunk[], timescale: number, fallback: number) {
+  const ticks = chunks.map((chunk) => Math.round((chunk.timestamp * timescale) / 1_000_000));
+  return ticks.map((tick, index) => {
+    if (index < ticks.length - 1) return Math.max(1, ticks[index + 1] - tick);
+    return index > 0 ? Math.max(1, tick - ticks[index - 1]) : fallback;
+  });
+}
+
+function stts(durations: number[]) {
+  const runs: Array<[number, number]> = [];
+  durations.forEach((duration) => {
+    const last = runs[runs.length - 1];
+    if (last && last[1] === duration) last[0] += 1;
+    else runs.push([1, duration]);
+  });
+  return fullBox("stts", 0, u32(runs.length), ...runs.map(([count, delta]) => u32(count, delta)));
+}
+
+function sampleTable(
+  entry: Uint8Array,
+  chunks: MuxChunk[],
+  durations: number[],
+  offsets: number[],
+  syncSamples: boolean,
+) {
+  const boxes = [fullBox("stsd", 0, u32(1), entry), stts(durations)];
+  if (syncSamples) {
+    const keys = chunks.flatMap((chunk, index) => (chunk.key ? [index + 1] : []));
+    boxes.push(fullBox("stss", 0, u32(keys.length), ...keys.map((key) => u32(key))));
+  }
+  boxes.push(
+    // One sample per chunk keeps stsc to a single entry and stco a straight offset list.
+    fullBox("stsc", 0, u32(1), u32(1, 1, 1)),
+    fullBox("stsz", 0, u32(0, chunks.length), ...chunks.map((chunk) => u32(chunk.data.length))),
+    fullBox("stco", 0, u32(offsets.length), ...offsets.map((offset) => u32(offset))),
+  );
+  return box("stbl", ...boxes);
+}
+
+function trak(options: {
+  id: number;
+  handler: "vide" | "soun";
+  timescale: number;
+  durations: number[];
+  width: number;
+  height: number;
+  header: Uint8Array;
+  stbl: Uint8Array;
+}) {
+  const mediaDuration = options.durations.reduce((acc, value) => acc + value, 0);
+  const movieDuration = Math.round((mediaDuration * MOVIE_TIMESCALE) / options.timescale);
+  const audio = options.handler === "soun";
+  return box(
+    "trak",
+    fullBox(
+      "tkhd",
+      3,
+      u32(0, 0, options.id, 0, movieDuration, 0, 0),
+      u16(0, 0, audio ? 0x0100 : 0, 0),
+      u32(...MATRIX),
+      u32(options.width * 0x10000, options.height * 0x10000),
+    ),
+    box(
+      "mdia",
+      fullBox("mdhd", 0, u32(0, 0, options.timescale, mediaDuration), u16(0x55c4, 0)),
+      fullBox(
+        "hdlr",
+        0,
+        u32(0),
+        encoder.encode(options.handler),
+        u32(0, 0, 0),
+        encoder.encode(audio ? "SoundHandler\0" : "VideoHandler\0"),
+      ),
+      box(
+        "minf",
+        options.header,
+        box("dinf", fullBox("dref", 0, u32(1), fullBox("url ", 1))),
+        options.stbl,
+      ),
+    ),
+  );
+}
+
+function avc1(video: MP4VideoTrack) {
+  const compressorName = new Uint8Array(32);
+  return box(
+    "avc1",
+    u8(0, 0, 0, 0, 0, 0),
+    u16(1, 0, 0),
+    u32(0, 0, 0),
+    u16(video.width, video.height),
+    u32(0x00480000, 0x00480000, 0),
+    u16(1),
+    compressorName,
+    u16(0x0018, 0xffff),
+    box("avcC", video.description),
+  );
+}
+
+function mp4a(audio: MP4AudioTrack) {
+  const config = audio.description ?? audioSpecificConfig(audio.sampleRate, audio.channels);
+  const esds = fullBox(
+    "esds",
+    0,
+    descriptor(
+      0x03,
+      u16(1),
+      u8(0),
+      descriptor(0x04, u8(0x40, 0x15, 0, 0, 0), u32(0, 0), descriptor(0x05, config)),
+      descriptor(0x06, u8(0x02)),
+    ),
+  );
+  return box(
+    "mp4a",
+    u8(0, 0, 0, 0, 0, 0),
+    u16(1),
+    u32(0, 0),
+    u16(audio.channels, 16, 0, 0),
+    u32(audio.sampleRate * 0x10000),
+    esds,
+  );
+}
+
+// Writes a "fast start" MP4: ftyp, moov, then a single mdat holding every video sample followed by
+// every audio sample. Timestamps on incoming chunks are in microseconds (WebCodecs).
+export function muxMP4(video: MP4VideoTrack, audio: MP4AudioTrack | null): Blob {
+  const ftyp = box("ftyp", encoder.encode("isom"), u32(0x200), encoder.encode("isomiso2avc1mp41"));
+  const videoDurations = sampleDurations(video.chunks, VIDEO_TIMESCALE, VIDEO_TIMESCALE / 30);
+  const audioDurations = audio ? sampleDurations(audio.chunks, audio.sampleRate, AAC_FRAME) : [];
+  const samples = [...video.chunks, ...(audio?.chunks ?? [])];
+
+  const buildMoov = (mdatStart: number) => {
+    let cursor = mdatStart + 8;
+    const offsetsFor = (chunks: MuxChunk[]) =>
+      chunks.map((chunk) => {
+        const offset = cursor;
+        cursor += chunk.data.length;
+        return offset;
+      });
+    const videoOffsets = offsetsFor(video.chunks);
+    const audioOffsets = audio ? offsetsFor(audio.chunks) : [];
+
+    const traks = [
+      trak({
+        id: 1,
+        handler: "vide",
+        timescale: VIDEO_TIMESCALE,
+        durations: videoDurations,
+        width: video.width,
+        height: video.height,
+        header: fullBox("vmhd", 1, u16(0, 0, 0, 0)),
+        stbl: sampleTable(avc1(video), video.chunks, videoDurations, videoOffsets, true),
+      }),
+    ];
+    if (audio) {
+      traks.push(
+        trak({
+          id: 2,
+          handler: "soun",
+          timescale: audio.sampleRate,
+          durations: audioDurations,
+          width: 0,
+          height: 0,
+          header: fullBox("smhd", 0, u16(0, 0)),
+          stbl: sampleTable(mp4a(audio), audio.chunks, audioDurations, audioOffsets, false),
+        }),
+      );
+    }
+
+    const videoLength = videoDurations.reduce((acc, value) => acc + value, 0) / VIDEO_TIMESCALE;
+    const audioLength = audio ? audioDurations.reduce((acc, value) => acc + value, 0) / audio.sampleRate : 0;
+    const duration = Math.round(Math.max(videoLength, audioLength) * MOVIE_TIMESCALE);
+    const mvhd = fullBox(
+      "mvhd",
+      0,
+      u32(0, 0, MOVIE_TIMESCALE, duration, 0x00010000),
+      u16(0x0100, 0),
+      u32(0, 0),
+      u32(...MATRIX),
+      u32(0, 0, 0, 0, 0, 0),
+      u32(traks.length + 1),
+    );
+    return box("moov", mvhd, ...traks);
+  };
+
+  // stco entries are fixed-width, so the moov size does not depend on the offsets written into it.
+  const moov = buildMoov(ftyp.length + buildMoov(0).length);
+  const mdat = box("mdat", ...samples.map((chunk) => chunk.data));
+  return new Blob([ftyp, moov, mdat], { type: "video/mp4" });
+}
@@ -0,0 +1,334 @@
+import type { AvatarVisualState } from "./avatars";
+import { createGifEncoder } from "./gif";
+import { muxMP4 } from "./mp4";
+import { muxWebM, opusHead, type MuxChunk, type WebMAudioTrack } from "./webm";
+import { createZip, type ZipEntry } from "./zip";
+
+export type OfflineRenderOptions = {
+  fps: number;
+  duration: number;
+  width: number;
+  height: number;
+  stateAt: (time: number) => AvatarVisualState;
+  draw: (ctx: CanvasRenderingContext2D, state: AvatarVisualState, time: number) => void;
+  // Awaited before each frame is drawn, e.g. to seek a background video to `time`.
+  prepare?: (time: number) => Promise<void>;
+  // Keep the canvas alpha channel in the output (transparent backgrounds). Formats that cannot
+  // carry it ignore the flag.
+  alpha?: boolean;
+  onProgress?: (frame: number, total: number) => void;
+  // Called when part of the request had to be dropped, e.g. no AAC encoder for MP4 audio.
+  onWarning?: (message: string) => void;
+};
+
+type AudioRenderOptions = OfflineRenderOptions & { audio?: AudioBuffer | null };
+
+type EncodedAudio = {
+  channels: number;
+  description: Uint8Array | null;
+  chunks: MuxChunk[];
+};
+
+export type RenderedFrame = {
+  canvas: HTMLCanvasElement;
+  index: number;
+  time: number;
+};
+
+const waitForQueue = async (queueSize: () => number) => {
+  while (queueSize() > 8) {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+};
+
+const copyBytes = (source: AllowSharedBufferSource) =>
+  ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength).slice()
+    : new Uint8Array(source).slice();
+
+const copyChunk = (chunk: EncodedVideoChunk | EncodedAudioChunk): MuxChunk => {
+  const data = new Uint8Array(chunk.byteLength);
+  chunk.copyTo(data);
+  return { data, timestamp: chunk.timestamp, key: chunk.type === "key" };
+};
+
+export function frameCount(duration: number, fps: number) {
+  return Math.max(1, Math.ceil((duration / 1000) * fps));
+}
+
+// Steps a virtual clock one frame at a time; nothing here reads wall-clock time, so the same
+// inputs always produce the same sequence of frames regardless of how slow the machine is.
+export async function renderFrames(
+  options: OfflineRenderOptions,
+  visit: (frame: RenderedFrame) => Promise<void> | void,
+) {
+  const canvas = document.createElement("canvas");
+  canvas.width = options.width;
+  canvas.height = options.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  const total = frameCount(options.duration, options.fps);
+  for (let index = 0; index < total; index++) {
+    const time = (index * 1000) / options.fps;
+    await options.prepare?.(time);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, options.width, options.height);
+    options.draw(ctx, options.stateAt(time), time);
+    await visit({ canvas, index, time });
+    options.onProgress?.(index + 1, total);
+  }
+}
+
+async function pickVideoCodec(
+  candidates: Array<{ codec: string; extra?: Partial<VideoEncoderConfig> }>,
+  width: number,
+  height: number,
+  fps: number,
+) {
+  for (const candidate of candidates) {
+    const config: VideoEncoderConfig = {
+      codec: candidate.codec,
+      width,
+      height,
+      framerate: fps,
+      bitrate: 6_000_000,
+      latencyMode: "quality",
+      ...candidate.extra,
+    };
+    const support = await VideoEncoder.isConfigSupported(config);
+    if (support.supported) return { config, codec: candidate.codec };
+  }
+  return null;
+}
+
+async function encodeAudio(buffer: AudioBuffer, codec: string): Promise<EncodedAudio | null> {
+  if (typeof AudioEncoder === "undefined") return null;
+  const channels = Math.min(2, buffer.numberOfChannels);
+  const config: AudioEncoderConfig = {
+    codec,
+    sampleRate: buffer.sampleRate,
+    numberOfChannels: channels,
+    bitrate: 128_000,
+  };
+  const support = await AudioEncoder.isConfigSupported(config);
+  if (!support.supported) return null;
+
+  const chunks: MuxChunk[] = [];
+  let description: Uint8Array | null = null;
+  let failure: unknown = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      chunks.push(copyChunk(chunk));
+      const source = metadata?.decoderConfig?.description;
+      if (source && !description) description = copyBytes(source);
+    },
+    error: (error) => {
+      failure = error;
+    },
+  });
+  encoder.configure(config);
+
+  const blockSize = Math.round(buffer.sampleRate / 50);
+  for (let offset = 0; offset < buffer.length; offset += blockSize) {
+    const frames = Math.min(blockSize, buffer.length - offset);
+    const planar = new Float32Array(frames * channels);
+    for (let channel = 0; channel < channels; channel++) {
+      planar.set(buffer.getChannelData(channel).subarray(offset, offset + frames), channel * frames);
+    }
+    const data = new AudioData({
+      format: "f32-planar",
+      sampleRate: buffer.sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels: channels,
+      timestamp: Math.round((offset / buffer.sampleRate) * 1_000_000),
+      data: planar,
+    });
+    encoder.encode(data);
+    data.close();
+    await waitForQueue(() => encoder.encodeQueueSize);
+  }
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+  return { channels, description, chunks };
+}
+
+async function encodeOpus(buffer: AudioBuffer): Promise<WebMAudioTrack | null> {
+  const encoded = await encodeAudio(buffer, "opus");
+  if (!encoded) return null;
+  return {
+    codec: "A_OPUS",
+    sampleRate: buffer.sampleRate,
+    channels: encoded.channels,
+    codecPrivate: encoded.description ?? opusHead(encoded.channels, buffer.sampleRate),
+    chunks: encoded.chunks,
+  };
+}
+
+async function encodeVideo(options: OfflineRenderOptions, config: VideoEncoderConfig) {
+  const chunks: MuxChunk[] = [];
+  let description: Uint8Array | null = null;
+  let failure: unknown = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, metadata) => {
+      const copy = copyChunk(chunk);
+      // Chromium hands the VP8/VP9 alpha plane back as side data when encoding with
+      // alpha: "keep"; it is not in the WebCodecs typings yet.
+      const alpha = (metadata as { alphaSideData?: AllowSharedBufferSource } | undefined)?.alphaSideData;
+      if (alpha) copy.alpha = copyBytes(alpha);
+      chunks.push(copy);
+      const source = metadata?.decoderConfig?.description;
+      if (source && !description) description = copyBytes(source);
+    },
+    error: (error) => {
+      failure = error;
+    },
+  });
+  encoder.configure(config);
+
+  const frameDuration = 1_000_000 / options.fps;
+  const keyInterval = Math.max(1, Math.round(options.fps * 2));
+  await renderFrames(options, async ({ canvas, index }) => {
+    const frame = new VideoFrame(canvas, {
+      timestamp: Math.round(index * frameDuration),
+      duration: Math.round(frameDuration),
+    });
+    encoder.encode(frame, { keyFrame: index % keyInterval === 0 });
+    frame.close();
+    await waitForQueue(() => encoder.encodeQueueSize);
+    if (failure) throw failure;
+  });
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+  return { chunks, description: description as Uint8Array | null };
+}
+
+export async function renderWebM(options: AudioRenderOptions): Promise<Blob> {
+  if (typeof VideoEncoder === "undefined") {
+    throw new Error("Offline rendering needs WebCodecs (VideoEncoder)");
+  }
+  const candidates = [{ codec: "vp09.00.10.08" }, { codec: "vp8" }];
+  const picked =
+    (options.alpha
+      ? await pickVideoCodec(
+          candidates.map((candidate) => ({ ...candidate, extra: { alpha: "keep" as const } })),
+          options.width,
+          options.height,
+          options.fps,
+        )
+      : null) ?? (await pickVideoCodec(candidates, options.width, options.height, options.fps));
+  if (!picked) throw new Error("No WebM video encoder available");
+  const { chunks } = await encodeVideo(options, picked.config);
+  const alpha = picked.config.alpha === "keep" && chunks.some((chunk) => chunk.alpha);
+  if (options.alpha && !alpha) {
+    options.onWarning?.("This browser cannot encode WebM with alpha; exported an opaque video (try a PNG sequence)");
+  }
+
+  const audio = options.audio ? await encodeOpus(options.audio) : null;
+  if (options.audio && !audio) options.onWarning?.("Opus encoding unavailable; exported without audio");
+  return muxWebM(
+    {
+      codec: picked.codec === "vp8" ? "V_VP8" : "V_VP9",
+      width: options.width,
+      height: options.height,
+      alpha,
+      chunks,
+    },
+    audio,
+    options.duration,
+  );
+}
+
+// H.264 High, Main, then Baseline; the first the browser can encode at this size wins.
+const AVC_CANDIDATES = ["avc1.64002A", "avc1.4D402A", "avc1.42E02A", "avc1.42001f"].map((codec) => ({
+  codec,
+  extra: { avc: { format: "avc" as const } },
+}));
+
+export async function renderMP4(options: AudioRenderOptions): Promise<Blob> {
+  if (typeof VideoEncoder === "undefined") {
+    throw new Error("MP4 export needs WebCodecs (VideoEncoder)");
+  }
+  const picked = await pickVideoCodec(AVC_CANDIDATES, options.width, options.height, options.fps);
+  if (!picked) throw new Error("This browser cannot encode H.264; try WebM instead");
+  const { chunks, description } = await encodeVideo(options, picked.config);
+  if (!description) throw new Error("H.264 encoder did not provide an avcC record");
+
+  const audio = options.audio ? await encodeAudio(options.audio, "mp4a.40.2") : null;
+  if (options.audio && !audio) options.onWarning?.("AAC encoding unavailable; exported MP4 without audio");
+  return muxMP4(
+    { width: options.width, height: options.height, description, chunks },
+    audio && options.audio
+      ? {
+          sampleRate: options.audio.sampleRate,
+          channels: audio.channels,
+          description: audio.description,
+          chunks: audio.chunks,
+        }
+      : null,
+  );
+}
+
+// GIF has no audio track; any audio passed in is ignored.
+export async function renderGif(options: OfflineRenderOptions): Promise<Blob> {
+  const gif = createGifEncoder(options.width, options.height);
+  await renderFrames(options, ({ canvas, index }) => {
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D context unavailable");
+    // Centisecond delays rounded cumulatively, so 15 fps alternates 7/7/6 instead of drifting.
+    const delay = Math.round(((index + 1) * 100) / options.fps) - Math.round((index * 100) / options.fps);
+    gif.addFrame(ctx.getImageData(0, 0, options.width, options.height).data, delay);
+  });
+  return gif.finish();
+}
+
+function encodeWav(buffer: AudioBuffer) {
+  const channels = Math.min(2, buffer.numberOfChannels);
+  const bytes = new Uint8Array(44 + buffer.length * channels * 2);
+  const view = new DataView(bytes.buffer);
+  const tag = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+  tag(0, "RIFF");
+  view.setUint32(4, bytes.length - 8, true);
+  tag(8, "WAVE");
+  tag(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  tag(36, "data");
+  view.setUint32(40, buffer.length * channels * 2, true);
+
+  const data = Array.from({ length: channels }, (_, channel) => buffer.getChannelData(channel));
+  let offset = 44;
+  for (let i = 0; i < buffer.length; i++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const sample = Math.max(-1, Math.min(1, data[channel][i]));
+      view.setInt16(offset, Math.round(sample * 0x7fff), true);
+      offset += 2;
+    }
+  }
+  return bytes;
+}
+
+// Zip of numbered PNG frames (frame_00001.png, ...) with the soundtrack as audio.wav alongside,
+// ready for an NLE or ffmpeg image-sequence import.
+export async function renderPngSequence(options: AudioRenderOptions): Promise<Blob> {
+  const entries: ZipEntry[] = [];
+  await renderFrames(options, async ({ canvas, index }) => {
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+    if (!blob) throw new Error("PNG encoding failed");
+    entries.push({
+      name: `frame_${String(index + 1).padStart(5, "0")}.png`,
+      data: new Uint8Array(await blob.arrayBuffer()),
+    });
+  });
+  if (options.audio) entries.push({ name: "audio.wav", data: encodeWav(options.audio) });
+  return createZip(entries);
+}
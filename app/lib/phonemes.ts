@@ -0,0 +1,420 @@
+export type Phoneme =
+  | "AA" | "AE" | "AH" | "AO" | "AW" | "AY" | "EH" | "ER" | "EY" | "IH" | "IY" | "OW" | "OY" | "UH" | "UW"
+  | "B" | "CH" | "D" | "DH" | "F" | "G" | "HH" | "JH" | "K" | "L" | "M" | "N" | "NG" | "P" | "R" | "S"
+  | "SH" | "T" | "TH" | "V" | "W" | "Y" | "Z" | "ZH";
+
+export type Viseme = "rest" | "MBP" | "FV" | "TH" | "LNT" | "KG" | "SZ" | "SH" | "R" | "AA" | "E" | "I" | "O" | "U";
+
+export type VisemeShape = {
+  openness: number;
+  width: number;
+  roundness: number;
+};
+
+export type VisemeCue = {
+  viseme: Viseme;
+  phoneme: Phoneme | null;
+  start: number;
+  duration: number;
+  tokenIndex: number;
+};
+
+export const visemeShapes: Record<Viseme, VisemeShape> = {
+  rest: { openness: 0.02, width: 0.5, roundness: 0.2 },
+  MBP: { openness: 0, width: 0.46, roundness: 0.12 },
+  FV: { openness: 0.1, width: 0.62, roundness: 0.08 },
+  TH: { openness: 0.2, width: 0.6, roundness: 0.12 },
+  LNT: { openness: 0.28, width: 0.6, roundness: 0.16 },
+  KG: { openness: 0.36, width: 0.58, roundness: 0.2 },
+  SZ: { openness: 0.12, width: 0.78, roundness: 0.06 },
+  SH: { openness: 0.22, width: 0.42, roundness: 0.58 },
+  R: { openness: 0.26, width: 0.44, roundness: 0.5 },
+  AA: { openness: 0.92, width: 0.68, roundness: 0.3 },
+  E: { openness: 0.52, width: 0.82, roundness: 0.14 },
+  I: { openness: 0.3, width: 0.92, roundness: 0.06 },
+  O: { openness: 0.7, width: 0.42, roundness: 0.8 },
+  U: { openness: 0.3, width: 0.3, roundness: 0.96 },
+};
+
+const phonemeVisemes: Record<Phoneme, Viseme[]> = {
+  AA: ["AA"],
+  AE: ["AA"],
+  AH: ["AA"],
+  AO: ["O"],
+  AW: ["AA", "U"],
+  AY: ["AA", "I"],
+  EH: ["E"],
+  ER: ["R"],
+  EY: ["E", "I"],
+  IH: ["I"],
+  IY: ["I"],
+  OW: ["O", "U"],
+  OY: ["O", "I"],
+  UH: ["U"],
+  UW: ["U"],
+  B: ["MBP"],
+  M: ["MBP"],
+  P: ["MBP"],
+  F: ["FV"],
+  V: ["FV"],
+  TH: ["TH"],
+  DH: ["TH"],
+  D: ["LNT"],
+  L: ["LNT"],
+  N: ["LNT"],
+  T: ["LNT"],
+  G: ["KG"],
+  HH: ["KG"],
+  K: ["KG"],
+  NG: ["KG"],
+  Y: ["I"],
+  S: ["SZ"],
+  Z: ["SZ"],
+  CH: ["SH"],
+  JH: ["SH"],
+  SH: ["SH"],
+  ZH: ["SH"],
+  R: ["R"],
+  W: ["U"],
+};
+
+const vowelPhonemes = new Set<Phoneme>(["AA", "AE", "AH", "AO", "AW", "AY", "EH", "ER", "EY", "IH", "IY", "OW", "OY", "UH", "UW"]);
+const stopPhonemes = new Set<Phoneme>(["B", "D", "G", "K", "P", "T"]);
+
+// Words whose spelling the rules below get wrong, plus short function words that are
+// spoken often enough to be worth pinning down exactly.
+const exceptions: Record<string, string> = {
+  a: "AH",
+  the: "DH AH",
+  of: "AH V",
+  to: "T UW",
+  do: "D UW",
+  does: "D AH Z",
+  done: "D AH N",
+  you: "Y UW",
+  your: "Y AO R",
+  "you're": "Y AO R",
+  i: "AY",
+  "i'm": "AY M",
+  "i'll": "AY L",
+  is: "IH Z",
+  "it's": "IH T S",
+  as: "AE Z",
+  has: "HH AE Z",
+  was: "W AA Z",
+  are: "AA R",
+  were: "W ER",
+  "we're": "W IH R",
+  have: "HH AE V",
+  give: "G IH V",
+  live: "L IH V",
+  get: "G EH T",
+  one: "W AH N",
+  once: "W AH N S",
+  two: "T UW",
+  said: "S EH D",
+  says: "S EH Z",
+  come: "K AH M",
+  some: "S AH M",
+  love: "L AH V",
+  move: "M UW V",
+  who: "HH UW",
+  what: "W AH T",
+  where: "W EH R",
+  there: "DH EH R",
+  their: "DH EH R",
+  they: "DH EY",
+  this: "DH IH S",
+  that: "DH AE T",
+  then: "DH EH N",
+  them: "DH EH M",
+  these: "DH IY Z",
+  those: "DH OW Z",
+  with: "W IH DH",
+  eye: "AY",
+  any: "EH N IY",
+  many: "M EH N IY",
+  been: "B IH N",
+  could: "K UH D",
+  would: "W UH D",
+  should: "SH UH D",
+  through: "TH R UW",
+  though: "DH OW",
+  enough: "IH N AH F",
+  laugh: "L AE F",
+  friend: "F R EH N D",
+  people: "P IY P AH L",
+  very: "V EH R IY",
+  put: "P UH T",
+  push: "P UH SH",
+  pull: "P UH L",
+  busy: "B IH Z IY",
+  women: "W IH M AH N",
+  island: "AY L AH N D",
+  know: "N OW",
+  knew: "N UW",
+  be: "B IY",
+  he: "HH IY",
+  she: "SH IY",
+  we: "W IY",
+  me: "M IY",
+  no: "N OW",
+  go: "G OW",
+  so: "S OW",
+  my: "M AY",
+  by: "B AY",
+  hello: "HH AH L OW",
+  ok: "OW K EY",
+  okay: "OW K EY",
+  "don't": "D OW N T",
+  "can't": "K AE N T",
+  "won't": "W OW N T",
+  "let's": "L EH T S",
+  zero: "Z IH R OW",
+  three: "TH R IY",
+  four: "F AO R",
+  five: "F AY V",
+  six: "S IH K S",
+  seven: "S EH V AH N",
+  eight: "EY T",
+  nine: "N AY N",
+};
+
+const digitWords = ["zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine"];
+
+type Rule = {
+  match: string;
+  phonemes: Phoneme[];
+  when?: (word: string, index: number) => boolean;
+};
+
+const isVowelLetter = (char: string | undefined) => !!char && "aeiou".includes(char);
+const atStart = (_word: string, index: number) => index === 0;
+const atEnd = (length: number) => (word: string, index: number) => index + length === word.length;
+const beforeConsonantOrEnd = (length: number) => (word: string, index: number) =>
+  !isVowelLetter(word[index + length]) && word[index + length] !== "y";
+
+// Ordered longest-first within each starting letter; the first rule whose pattern and
+// condition match at the cursor wins.
+const rules: Rule[] = [
+  { match: "tion", phonemes: ["SH", "AH", "N"] },
+  { match: "sion", phonemes: ["ZH", "AH", "N"] },
+  { match: "ture", phonemes: ["CH", "ER"] },
+  { match: "tch", phonemes: ["CH"] },
+  { match: "dge", phonemes: ["JH"] },
+  { match: "ive", phonemes: ["IH", "V"], when: (word, index) => index + 3 === word.length && word.length > 5 },
+  { match: "igh", phonemes: ["AY"] },
+  { match: "air", phonemes: ["EH", "R"] },
+  { match: "ear", phonemes: ["IH", "R"], when: beforeConsonantOrEnd(3) },
+  { match: "all", phonemes: ["AO", "L"] },
+  { match: "ch", phonemes: ["CH"] },
+  { match: "sh", phonemes: ["SH"] },
+  { match: "th", phonemes: ["TH"] },
+  { match: "ph", phonemes: ["F"] },
+  { match: "wh", phonemes: ["W"] },
+  { match: "ck", phonemes: ["K"] },
+  { match: "ng", phonemes: ["NG"] },
+  { match: "qu", phonemes: ["K", "W"] },
+  { match: "kn", phonemes: ["N"], when: atStart },
+  { match: "wr", phonemes: ["R"], when: atStart },
+  { match: "gh", phonemes: ["G"], when: atStart },
+  { match: "gh", phonemes: [] },
+  { match: "mb", phonemes: ["M"], when: atEnd(2) },
+  { match: "ed", phonemes: ["IH", "D"], when: (word, index) => index + 2 === word.length && index > 1 && "td".includes(word[index - 1]) },
+  { match: "ed", phonemes: ["D"], when: (word, index) => index + 2 === word.length && index > 1 },
+  { match: "es", phonemes: ["IH", "Z"], when: (word, index) => index + 2 === word.length && index > 1 && "sxzh".includes(word[index - 1]) },
+  { match: "es", phonemes: ["Z"], when: (word, index) => index + 2 === word.length && index > 1 },
+  { match: "ee", phonemes: ["IY"] },
+  { match: "ea", phonemes: ["IY"] },
+  { match: "ie", phonemes: ["AY"], when: (word, index) => index + 2 === word.length && word.length <= 4 },
+  { match: "ie", phonemes: ["IY"] },
+  { match: "ei", phonemes: ["EY"] },
+  { match: "ey", phonemes: ["IY"], when: atEnd(2) },
+  { match: "ey", phonemes: ["EY"] },
+  { match: "oo", phonemes: ["UW"] },
+  { match: "ou", phonemes: ["AW"] },
+  { match: "ow", phonemes: ["OW"] },
+  { match: "oa", phonemes: ["OW"] },
+  { match: "oe", phonemes: ["OW"], when: atEnd(2) },
+  { match: "oi", phonemes: ["OY"] },
+  { match: "oy", phonemes: ["OY"] },
+  { match: "ai", phonemes: ["EY"] },
+  { match: "ay", phonemes: ["EY"] },
+  { match: "au", phonemes: ["AO"] },
+  { match: "aw", phonemes: ["AO"] },
+  { match: "ew", phonemes: ["UW"] },
+  { match: "ue", phonemes: ["UW"] },
+  { match: "er", phonemes: ["ER"], when: beforeConsonantOrEnd(2) },
+  { match: "ir", phonemes: ["ER"], when: beforeConsonantOrEnd(2) },
+  { match: "ur", phonemes: ["ER"], when: beforeConsonantOrEnd(2) },
+  { match: "ar", phonemes: ["AA", "R"], when: beforeConsonantOrEnd(2) },
+  { match: "or", phonemes: ["AO", "R"], when: beforeConsonantOrEnd(2) },
+  { match: "x", phonemes: ["K", "S"] },
+];
+
+const longVowels: Record<string, Phoneme> = { a: "EY", e: "IY", i: "AY", o: "OW", u: "UW" };
+const shortVowels: Record<string, Phoneme> = { a: "AE", e: "EH", i: "IH", o: "AA", u: "AH" };
+const consonants: Record<string, Phoneme[]> = {
+  b: ["B"],
+  d: ["D"],
+  f: ["F"],
+  h: ["HH"],
+  j: ["JH"],
+  k: ["K"],
+  l: ["L"],
+  m: ["M"],
+  n: ["N"],
+  p: ["P"],
+  q: ["K"],
+  r: ["R"],
+  s: ["S"],
+  t: ["T"],
+  v: ["V"],
+  w: ["W"],
+  z: ["Z"],
+};
+
+const magicETail = /^[^aeiouy]e(s|d|ly|ful|ness)?$/;
+
+function letterToPhonemes(word: string, index: number): Phoneme[] {
+  const char = word[index];
+  const next = word[index + 1];
+  if (isVowelLetter(char)) {
+    if (char === "e" && index === word.length - 1 && word.length > 2) return [];
+    if (magicETail.test(word.slice(index + 1))) return [longVowels[char]];
+    if (char === "o" && index === word.length - 1) return ["OW"];
+    return [shortVowels[char]];
+  }
+  if (char === "y") {
+    if (index === 0) return ["Y"];
+    if (index === word.length - 1) {
+      return /[aeiou]/.test(word.slice(0, index)) ? ["IY"] : ["AY"];
+    }
+    return isVowelLetter(next) ? ["Y"] : ["IH"];
+  }
+  if (char === "c") return next && "eiy".includes(next) ? ["S"] : ["K"];
+  if (char === "g") return index > 0 && next && "eiy".includes(next) ? ["JH"] : ["G"];
+  return consonants[char] ?? [];
+}
+
+function applyRules(word: string): Phoneme[] {
+  const result: Phoneme[] = [];
+  let index = 0;
+  while (index < word.length) {
+    const char = word[index];
+    if (index > 0 && char === word[index - 1] && !isVowelLetter(char)) {
+      index += 1;
+      continue;
+    }
+    const rule = rules.find(
+      (candidate) => word.startsWith(candidate.match, index) && (!candidate.when || candidate.when(word, index)),
+    );
+    if (rule) {
+      result.push(...rule.phonemes);
+      index += rule.match.length;
+      continue;
+    }
+    result.push(...letterToPhonemes(word, index));
+    index += 1;
+  }
+  return result;
+}
+
+// Own keys only, so words like "constructor" fall through to the rules.
+const exceptionFor = (word: string) => (Object.hasOwn(exceptions, word) ? exceptions[word] : undefined);
+
+export function toPhonemes(token: string): Phoneme[] {
+  const normalized = token.toLowerCase().replace(/[’‘]/g, "'").replace(/[^a-z0-9'\-]/g, "");
+  if (!normalized) return [];
+  const known = exceptionFor(normalized);
+  if (known) return known.split(" ") as Phoneme[];
+  return normalized
+    .split(/[-']/)
+    .filter(Boolean)
+    .flatMap((part) => {
+      if (/^\d+$/.test(part)) {
+        return part.split("").flatMap((digit) => exceptions[digitWords[Number(digit)]].split(" ") as Phoneme[]);
+      }
+      const exception = exceptionFor(part);
+      return exception ? (exception.split(" ") as Phoneme[]) : applyRules(part.replace(/\d/g, ""));
+    });
+}
+
+function phonemeWeight(phoneme: Phoneme) {
+  if (vowelPhonemes.has(phoneme)) return 1.6;
+  if (stopPhonemes.has(phoneme)) return 0.7;
+  return 1;
+}
+
+// `holds` is extra silence (ms) already included in each token's segment, e.g. from a pause cue;
+// it is appended to the token's trailing rest instead of stretching the word itself.
+export function buildVisemeTrack(tokens: string[], segments: number[], holds: number[] = []): VisemeCue[] {
+  const cues: VisemeCue[] = [];
+  const push = (cue: VisemeCue) => {
+    const last = cues[cues.length - 1];
+    if (last && last.viseme === cue.viseme && last.tokenIndex === cue.tokenIndex) {
+      last.duration += cue.duration;
+      return;
+    }
+    cues.push(cue);
+  };
+
+  let cursor = 0;
+  tokens.forEach((token, tokenIndex) => {
+    const segment = segments[tokenIndex] ?? 0;
+    const hold = Math.min(segment, holds[tokenIndex] ?? 0);
+    const spoken = segment - hold;
+    const gap = Math.min(spoken * 0.45, /[,.!?;:]$/.test(token) ? 420 : 70);
+    const pause = gap + hold;
+    const speaking = spoken - gap;
+    const phonemes = toPhonemes(token);
+    const totalWeight = phonemes.reduce((acc, phoneme) => acc + phonemeWeight(phoneme), 0);
+
+    let start = cursor;
+    phonemes.forEach((phoneme) => {
+      const duration = (speaking * phonemeWeight(phoneme)) / totalWeight;
+      const visemes = phonemeVisemes[phoneme];
+      visemes.forEach((viseme) => {
+        push({ viseme, phoneme, start, duration: duration / visemes.length, tokenIndex });
+        start += duration / visemes.length;
+      });
+    });
+    if (phonemes.length === 0) {
+      push({ viseme: "rest", phoneme: null, start, duration: speaking, tokenIndex });
+    }
+    push({ viseme: "rest", phoneme: null, start: cursor + speaking, duration: pause, tokenIndex });
+    cursor += segment;
+  });
+  return cues;
+}
+
+const smoothstep = (value: number) => {
+  const t = Math.max(0, Math.min(1, value));
+  return t * t * (3 - 2 * t);
+};
+
+// Blends from the previous viseme into the active one over the first third of the cue so
+// consecutive shapes co-articulate instead of snapping.
+export function sampleVisemeTrack(track: VisemeCue[], elapsed: number): VisemeShape & { viseme: Viseme } {
+  if (track.length === 0) return { ...visemeShapes.rest, viseme: "rest" };
+  let low = 0;
+  let high = track.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (track[mid].start <= elapsed) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  const cue = track[low];
+  const target = visemeShapes[cue.viseme];
+  const previous = visemeShapes[low > 0 ? track[low - 1].viseme : "rest"];
+  const blend = smoothstep(cue.duration === 0 ? 1 : (elapsed - cue.start) / (cue.duration * 0.35));
+  return {
+    viseme: cue.viseme,
+    openness: previous.openness + (target.openness - previous.openness) * blend,
+    width: previous.width + (target.width - previous.width) * blend,
+    roundness: previous.roundness + (target.roundness - previous.roundness) * blend,
+  };
+}
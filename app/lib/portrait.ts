@@ -0,0 +1,51 @@
+export type Point = { x: number; y: number };
+
+export type LandmarkKey = "leftEye" | "rightEye" | "mouthLeft" | "mouthRight" | "jawLeft" | "chin" | "jawRight";
+
+// Positions on the uploaded photo, normalised to 0–1 of its width and height, so they stay
+// valid whatever size the photo is drawn at.
+export type PortraitLandmarks = Record<LandmarkKey, Point>;
+
+export const landmarkAnchors: { key: LandmarkKey; label: string }[] = [
+  { key: "leftEye", label: "Left eye" },
+  { key: "rightEye", label: "Right eye" },
+  { key: "mouthLeft", label: "Mouth corner" },
+  { key: "mouthRight", label: "Mouth corner" },
+  { key: "jawLeft", label: "Jaw" },
+  { key: "chin", label: "Chin" },
+  { key: "jawRight", label: "Jaw" },
+];
+
+// Where the features sit on a typical head-and-shoulders crop; the starting guess the user
+// drags from after uploading.
+export const defaultLandmarks: PortraitLandmarks = {
+  leftEye: { x: 0.38, y: 0.42 },
+  rightEye: { x: 0.62, y: 0.42 },
+  mouthLeft: { x: 0.43, y: 0.66 },
+  mouthRight: { x: 0.57, y: 0.66 },
+  jawLeft: { x: 0.34, y: 0.76 },
+  chin: { x: 0.5, y: 0.86 },
+  jawRight: { x: 0.66, y: 0.76 },
+};
+
+const clampUnit = (value: number) => Math.max(0, Math.min(1, value));
+
+export const clampPoint = (point: Point): Point => ({ x: clampUnit(point.x), y: clampUnit(point.y) });
+
+export const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+export const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+// Validates landmarks read back from a project file; anything malformed means "not calibrated".
+export function readLandmarks(value: unknown): PortraitLandmarks | null {
+  if (typeof value !== "object" || value === null) return null;
+  const entry = value as Record<string, unknown>;
+  const landmarks = {} as PortraitLandmarks;
+  for (const { key } of landmarkAnchors) {
+    const point = entry[key] as Partial<Point> | undefined;
+    if (!point || typeof point.x !== "number" || typeof point.y !== "number") return null;
+    if (!Number.isFinite(point.x) || !Number.isFinite(point.y)) return null;
+    landmarks[key] = clampPoint({ x: point.x, y: point.y });
+  }
+  return landmarks;
+}
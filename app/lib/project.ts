@@ -0,0 +1,357 @@
+import type { MoodPhrase } from "./audioMood";
+import { avatarStyles, type AvatarStyle, type Emotion } from "./avatars";
+import {
+  defaultCaptionOptions,
+  defaultCaptionStyle,
+  type CaptionOptions,
+  type CaptionPosition,
+  type CaptionStyle,
+} from "./captions";
+import { readCustomStyle } from "./customAvatars";
+import type { SpeakerCast } from "./dialogue";
+import { defaultExportSettings, exportPresets, type ExportFormat, type ExportSettings } from "./exportFormats";
+import {
+  DAMPING_RANGE,
+  STIFFNESS_RANGE,
+  defaultMotionSettings,
+  motionChannels,
+  type MotionSettings,
+} from "./motion";
+import { readLandmarks, type PortraitLandmarks } from "./portrait";
+import type { SceneLayout, StageBackground } from "./renderer";
+import { emptySentimentOverrides, type SentimentOverrides } from "./sentiment";
+
+export const PROJECT_FORMAT = "lipforge-project";
+export const PROJECT_VERSION = 1;
+
+export type ProjectMedia =
+  | { kind: "embedded"; name: string; mimeType: string; dataUrl: string }
+  // Only http(s) URLs survive a reload; blob: URLs are dropped and the file must be re-uploaded.
+  | { kind: "reference"; name: string; url: string | null };
+
+export type ProjectSettings = {
+  mode: "text" | "audio" | "mic";
+  script: string;
+  emotion: Emotion;
+  avatarId: string;
+  voiceName: string | null;
+  speechRate: number;
+  speechPitch: number;
+  // Nods and open palms on sentence starts and questions, on top of any scripted gestures.
+  autoGestures: boolean;
+  // Per-sentence emotion tags for text mode, with the user's edits keyed by sentence.
+  autoSentiment: boolean;
+  sentimentOverrides: SentimentOverrides;
+  micGate: number;
+  micSensitivity: number;
+  // Spring smoothing for the live preview, per channel.
+  motion: MotionSettings;
+  renderSeed: number;
+  exportFormat: ExportFormat;
+  exportSettings: Record<ExportFormat, ExportSettings>;
+  // Calibration for the uploaded portrait; null when there is none or it was never calibrated.
+  portraitLandmarks: PortraitLandmarks | null;
+  captionStyle: CaptionStyle;
+  captionOptions: CaptionOptions;
+  // Avatar and voice picked per dialogue speaker; uncast speakers fall back as in the studio.
+  speakerCast: Record<string, SpeakerCast>;
+  sceneLayout: SceneLayout;
+  // A "media" background uses the project's background media.
+  backgroundKind: StageBackground["kind"];
+  backgroundColor: string;
+  // Moods read from the audio clip, including the user's accepts and overrides.
+  autoMood: boolean;
+  moodPhrases: MoodPhrase[];
+  // Custom styles travel with the project so it opens on a browser that never designed them.
+  customStyles: AvatarStyle[];
+};
+
+export type Project = {
+  format: typeof PROJECT_FORMAT;
+  version: typeof PROJECT_VERSION;
+  id: string;
+  name: string;
+  createdAt: string;
+  savedAt: string;
+  settings: ProjectSettings;
+  media: {
+    portrait: ProjectMedia | null;
+    audio: ProjectMedia | null;
+    background: ProjectMedia | null;
+  };
+};
+
+export type ProjectSummary = {
+  id: string;
+  name: string;
+  savedAt: string;
+};
+
+type RawProject = Record<string, unknown>;
+
+// The studio's initial state; used to fill gaps when there is no open session to fall back on.
+export const defaultProjectSettings = (): ProjectSettings => ({
+  mode: "text",
+  script: "",
+  emotion: "neutral",
+  avatarId: avatarStyles[0].id,
+  voiceName: null,
+  speechRate: 1,
+  speechPitch: 1,
+  autoGestures: true,
+  autoSentiment: true,
+  sentimentOverrides: emptySentimentOverrides(),
+  micGate: 0.08,
+  micSensitivity: 1.4,
+  motion: defaultMotionSettings(),
+  renderSeed: 1,
+  exportFormat: "webm",
+  exportSettings: defaultExportSettings(),
+  portraitLandmarks: null,
+  captionStyle: defaultCaptionStyle,
+  captionOptions: defaultCaptionOptions,
+  speakerCast: {},
+  sceneLayout: "side",
+  backgroundKind: "studio",
+  backgroundColor: "#0f172a",
+  autoMood: true,
+  moodPhrases: [],
+  customStyles: [],
+});
+
+const emotions: Emotion[] = ["neutral", "happy", "sad", "angry", "surprised"];
+const modes: ProjectSettings["mode"][] = ["text", "audio", "mic"];
+const captionPositions: CaptionPosition[] = ["top", "middle", "bottom"];
+const sceneLayouts: SceneLayout[] = ["side", "turns"];
+const backgroundKinds: StageBackground["kind"][] = ["studio", "solid", "chroma", "transparent", "media"];
+const moodStatuses: MoodPhrase["status"][] = ["proposed", "accepted", "overridden"];
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const isRecord = (value: unknown): value is RawProject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const readString = (value: unknown, fallback: string) => (typeof value === "string" ? value : fallback);
+
+const readNumber = (value: unknown, fallback: number, min: number, max: number) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback;
+
+const readOption = <T extends string>(value: unknown, options: readonly T[], fallback: T) =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+const readBoolean = (value: unknown, fallback: boolean) => (typeof value === "boolean" ? value : fallback);
+
+const readColor = (value: unknown, fallback: string) =>
+  typeof value === "string" && HEX_COLOR.test(value) ? value : fallback;
+
+function readMedia(value: unknown): ProjectMedia | null {
+  if (!isRecord(value)) return null;
+  const name = readString(value.name, "media");
+  if (value.kind === "embedded" && typeof value.dataUrl === "string" && value.dataUrl.startsWith("data:")) {
+    return { kind: "embedded", name, mimeType: readString(value.mimeType, "application/octet-stream"), dataUrl: value.dataUrl };
+  }
+  if (value.kind === "reference") {
+    const url = typeof value.url === "string" && /^https?:/i.test(value.url) ? value.url : null;
+    return { kind: "reference", name, url };
+  }
+  return null;
+}
+
+function readExportSettings(value: unknown, fallback: Record<ExportFormat, ExportSettings>) {
+  const settings = { ...fallback };
+  if (!isRecord(value)) return settings;
+  (Object.keys(exportPresets) as ExportFormat[]).forEach((format) => {
+    const entry = value[format];
+    const preset = exportPresets[format];
+    if (!isRecord(entry)) return;
+    settings[format] = {
+      size: preset.sizes.includes(entry.size as number) ? (entry.size as number) : fallback[format].size,
+      fps: preset.fpsOptions.includes(entry.fps as number) ? (entry.fps as number) : fallback[format].fps,
+    };
+  });
+  return settings;
+}
+
+function readMotionSettings(value: unknown, fallback: MotionSettings) {
+  const settings = { ...fallback };
+  if (!isRecord(value)) return settings;
+  motionChannels.forEach((channel) => {
+    const entry = value[channel];
+    if (!isRecord(entry)) return;
+    settings[channel] = {
+      stiffness: readNumber(entry.stiffness, fallback[channel].stiffness, STIFFNESS_RANGE.min, STIFFNESS_RANGE.max),
+      damping: readNumber(entry.damping, fallback[channel].damping, DAMPING_RANGE.min, DAMPING_RANGE.max),
+    };
+  });
+  return settings;
+}
+
+function readCaptionStyle(value: unknown, fallback: CaptionStyle): CaptionStyle {
+  if (!isRecord(value)) return fallback;
+  return {
+    enabled: readBoolean(value.enabled, fallback.enabled),
+    position: readOption(value.position, captionPositions, fallback.position),
+    fontSize: Math.round(readNumber(value.fontSize, fallback.fontSize, 16, 44)),
+    color: readColor(value.color, fallback.color),
+    highlight: readColor(value.highlight, fallback.highlight),
+    margin: Math.round(readNumber(value.margin, fallback.margin, 0, 96)),
+  };
+}
+
+function readCaptionOptions(value: unknown, fallback: CaptionOptions): CaptionOptions {
+  if (!isRecord(value)) return fallback;
+  return {
+    maxLineLength: Math.round(readNumber(value.maxLineLength, fallback.maxLineLength, 16, 80)),
+    maxLines: Math.round(readNumber(value.maxLines, fallback.maxLines, 1, 2)),
+    maxDuration: readNumber(value.maxDuration, fallback.maxDuration, 3000, 7000),
+  };
+}
+
+function readSpeakerCast(value: unknown): Record<string, SpeakerCast> {
+  const cast: Record<string, SpeakerCast> = {};
+  if (!isRecord(value)) return cast;
+  Object.entries(value).forEach(([speaker, entry]) => {
+    if (!isRecord(entry) || typeof entry.avatarId !== "string") return;
+    cast[speaker] = { avatarId: entry.avatarId, voiceName: typeof entry.voiceName === "string" ? entry.voiceName : null };
+  });
+  return cast;
+}
+
+function readMoodPhrases(value: unknown): MoodPhrase[] {
+  if (!Array.isArray(value)) return [];
+  const readMood = (entry: unknown) =>
+    isRecord(entry) && emotions.includes(entry.emotion as Emotion)
+      ? { emotion: entry.emotion as Emotion, intensity: readNumber(entry.intensity, 1, 0, 1) }
+      : null;
+  return value.flatMap((entry, index): MoodPhrase[] => {
+    const mood = readMood(entry);
+    if (!isRecord(entry) || !mood) return [];
+    const features = isRecord(entry.features) ? entry.features : {};
+    const start = readNumber(entry.start, 0, 0, Infinity);
+    return [
+      {
+        id: index + 1,
+        start,
+        end: readNumber(entry.end, start, start, Infinity),
+        ...mood,
+        proposed: readMood(entry.proposed) ?? mood,
+        status: readOption(entry.status, moodStatuses, "proposed"),
+        features: {
+          pitch: readNumber(features.pitch, 0, -48, 48),
+          pitchRange: readNumber(features.pitchRange, 0, 0, 96),
+          energy: readNumber(features.energy, 1, 0, 100),
+          energyVariance: readNumber(features.energyVariance, 1, 0, 100),
+          rate: readNumber(features.rate, 1, 0, 100),
+        },
+      },
+    ];
+  });
+}
+
+function readSentimentOverrides(value: unknown): SentimentOverrides {
+  const overrides = emptySentimentOverrides();
+  if (!isRecord(value)) return overrides;
+  Object.entries(value).forEach(([key, entry]) => {
+    if (!isRecord(entry) || !emotions.includes(entry.emotion as Emotion)) return;
+    overrides[key] = { emotion: entry.emotion as Emotion, intensity: readNumber(entry.intensity, 1, 0, 1) };
+  });
+  return overrides;
+}
+
+// Accepts any saved project (file contents or an IndexedDB record) and fills anything missing
+// or malformed from `defaults`.
+export function parseProject(project: unknown, defaults: ProjectSettings): Project {
+  if (!isRecord(project) || project.format !== PROJECT_FORMAT) {
+    throw new Error("Not a LipForge project file");
+  }
+  const version = typeof project.version === "number" ? project.version : PROJECT_VERSION;
+  if (version > PROJECT_VERSION) {
+    throw new Error(`Project version ${version} is newer than this studio supports`);
+  }
+
+  const settings = isRecord(project.settings) ? project.settings : {};
+  const media = isRecord(project.media) ? project.media : {};
+  const now = new Date().toISOString();
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    id: readString(project.id, createProjectId()),
+    name: readString(project.name, "Untitled project"),
+    createdAt: readString(project.createdAt, now),
+    savedAt: readString(project.savedAt, now),
+    settings: {
+      mode: readOption(settings.mode, modes, defaults.mode),
+      script: readString(settings.script, defaults.script),
+      emotion: readOption(settings.emotion, emotions, defaults.emotion),
+      avatarId: readString(settings.avatarId, defaults.avatarId),
+      voiceName: typeof settings.voiceName === "string" ? settings.voiceName : defaults.voiceName,
+      speechRate: readNumber(settings.speechRate, defaults.speechRate, 0.6, 1.4),
+      speechPitch: readNumber(settings.speechPitch, defaults.speechPitch, 0.6, 1.6),
+      autoGestures: readBoolean(settings.autoGestures, defaults.autoGestures),
+      autoSentiment: readBoolean(settings.autoSentiment, defaults.autoSentiment),
+      sentimentOverrides: readSentimentOverrides(settings.sentimentOverrides),
+      micGate: readNumber(settings.micGate, defaults.micGate, 0, 0.4),
+      micSensitivity: readNumber(settings.micSensitivity, defaults.micSensitivity, 0.5, 3),
+      motion: readMotionSettings(settings.motion, defaults.motion),
+      renderSeed: Math.round(readNumber(settings.renderSeed, defaults.renderSeed, 0, 2 ** 32 - 1)),
+      exportFormat: readOption(settings.exportFormat, Object.keys(exportPresets) as ExportFormat[], defaults.exportFormat),
+      exportSettings: readExportSettings(settings.exportSettings, defaults.exportSettings),
+      portraitLandmarks: readLandmarks(settings.portraitLandmarks),
+      captionStyle: readCaptionStyle(settings.captionStyle, defaults.captionStyle),
+      captionOptions: readCaptionOptions(settings.captionOptions, defaults.captionOptions),
+      speakerCast: readSpeakerCast(settings.speakerCast),
+      sceneLayout: readOption(settings.sceneLayout, sceneLayouts, defaults.sceneLayout),
+      backgroundKind: readOption(settings.backgroundKind, backgroundKinds, defaults.backgroundKind),
+      backgroundColor: readColor(settings.backgroundColor, defaults.backgroundColor),
+      autoMood: readBoolean(settings.autoMood, defaults.autoMood),
+      moodPhrases: readMoodPhrases(settings.moodPhrases),
+      customStyles: Array.isArray(settings.customStyles)
+        ? settings.customStyles.map(readCustomStyle).filter((style): style is AvatarStyle => !!style)
+        : [],
+    },
+    media: {
+      portrait: readMedia(media.portrait),
+      audio: readMedia(media.audio),
+      background: readMedia(media.background),
+    },
+  };
+}
+
+export function readProjectFile(text: string, defaults: ProjectSettings) {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Project file is not valid JSON");
+  }
+  return parseProject(raw, defaults);
+}
+
+export function createProjectId() {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID();
+  return `project-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function projectFileName(project: Project) {
+  const slug = project.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "project";
+  return `${slug}.lipforge.json`;
+}
+
+export const summarizeProject = (project: Project): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  savedAt: project.savedAt,
+});
+
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error ?? new Error("Could not read media"));
+    reader.readAsDataURL(blob);
+  });
+
+// Works for data: URLs from embedded media as well as referenced http(s) media.
+export const fetchAsFile = async (url: string, name: string) => {
+  const blob = await (await fetch(url)).blob();
+  return new File([blob], name, { type: blob.type });
+};
@@ -0,0 +1,70 @@
+import { summarizeProject, type Project, type ProjectSummary } from "./project";
+
+const DB_NAME = "lipforge-studio";
+const DB_VERSION = 1;
+// Full projects (with embedded media) and their lightweight summaries live in separate stores so
+// listing recent projects never has to load every project's audio.
+const PROJECTS = "projects";
+const RECENT = "recent";
+
+let database: Promise<IDBDatabase> | null = null;
+
+const settle = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed"));
+  });
+
+const complete = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error("IndexedDB transaction failed"));
+    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+  });
+
+function openDatabase() {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(RECENT)) db.createObjectStore(RECENT, { keyPath: "id" });
+    };
+    database = settle(request).catch((error) => {
+      database = null;
+      throw error;
+    });
+  }
+  return database;
+}
+
+export async function saveProjectRecord(project: Project) {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS, RECENT], "readwrite");
+  transaction.objectStore(PROJECTS).put(project);
+  transaction.objectStore(RECENT).put(summarizeProject(project));
+  await complete(transaction);
+}
+
+// Returns the stored record as-is; run it through `parseProject` to validate it and fill gaps.
+export async function loadProjectRecord(id: string): Promise<unknown> {
+  const db = await openDatabase();
+  return settle(db.transaction(PROJECTS).objectStore(PROJECTS).get(id));
+}
+
+export async function listRecentProjects(limit = 8): Promise<ProjectSummary[]> {
+  const db = await openDatabase();
+  const summaries = (await settle(db.transaction(RECENT).objectStore(RECENT).getAll())) as ProjectSummary[];
+  return summaries.sort((a, b) => b.savedAt.localeCompare(a.savedAt)).slice(0, limit);
+}
+
+export async function deleteProjectRecord(id: string) {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS, RECENT], "readwrite");
+  transaction.objectStore(PROJECTS).delete(id);
+  transaction.objectStore(RECENT).delete(id);
+  await complete(transaction);
+}
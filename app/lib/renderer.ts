@@ -0,0 +1,664 @@
+import type { AvatarStyle, AvatarVisualState } from "./avatars";
+import type { CaptionLayer } from "./captions";
+import { restPose, type ArmPose, type BodyPose, type HandPose } from "./gestures";
+import { clampPoint, defaultLandmarks, distance, midpoint, type Point, type PortraitLandmarks } from "./portrait";
+
+export const CANVAS_WIDTH = 520;
+export const CANVAS_HEIGHT = 520;
+
+// Everything the renderer touches on a context. Browser canvases, OffscreenCanvas in a worker and
+// server canvas libraries all provide these, so the same frame can be drawn anywhere. `Image` is
+// what the context's drawImage accepts: DOM image sources in the browser, the library's own image
+// and canvas objects on the server. Helpers that draw no images take `Canvas2DContext<unknown>`,
+// which every context satisfies.
+export type Canvas2DContext<Image = CanvasImageSource> = Pick<
+  CanvasRenderingContext2D,
+  | "arc"
+  | "beginPath"
+  | "clearRect"
+  | "clip"
+  | "closePath"
+  | "createLinearGradient"
+  | "createRadialGradient"
+  | "ellipse"
+  | "fill"
+  | "fillRect"
+  | "fillText"
+  | "lineTo"
+  | "measureText"
+  | "moveTo"
+  | "quadraticCurveTo"
+  | "restore"
+  | "rotate"
+  | "save"
+  | "scale"
+  | "stroke"
+  | "strokeRect"
+  | "translate"
+  | "fillStyle"
+  | "font"
+  | "globalAlpha"
+  | "lineCap"
+  | "lineJoin"
+  | "lineWidth"
+  | "strokeStyle"
+  | "textBaseline"
+> & {
+  drawImage(image: Image, dx: number, dy: number, dw: number, dh: number): void;
+};
+
+export type StageBackground<Image = CanvasImageSource> =
+  | { kind: "studio" }
+  | { kind: "solid"; color: string }
+  | { kind: "chroma" }
+  | { kind: "transparent" }
+  // An image, or the current frame of a video; scaled to cover the frame.
+  | { kind: "media"; source: Image; width: number; height: number };
+
+// Broadcast chroma green; flat and far from any skin tone, so it keys cleanly.
+export const CHROMA_GREEN = "#00b140";
+
+export type RenderOptions<Image = CanvasImageSource> = {
+  // Defaults to the studio backdrop. Every other background is meant for compositing, so it
+  // fills the whole frame without the rounded card, border or level readout.
+  background?: StageBackground<Image>;
+  // Uploaded portrait; without one the procedural head is drawn in the style's colours.
+  image?: Image | null;
+  landmarks?: PortraitLandmarks | null;
+  caption?: CaptionLayer | null;
+  // Draw over whatever is already on the context instead of clearing the frame first; used for
+  // presenters placed on a scene's shared background.
+  overlay?: boolean;
+};
+
+function ease(value: number) {
+  return Math.max(0, Math.min(1, value));
+}
+
+function drawRoundedRect(
+  ctx: Canvas2DContext<unknown>,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  radius: number,
+) {
+  const r = Math.min(radius, w / 2, h / 2);
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.lineTo(x + w - r, y);
+  ctx.quadraticCurveTo(x + w, y, x + w, y + r);
+  ctx.lineTo(x + w, y + h - r);
+  ctx.quadraticCurveTo(x + w, y + h, x + w - r, y + h);
+  ctx.lineTo(x + r, y + h);
+  ctx.quadraticCurveTo(x, y + h, x, y + h - r);
+  ctx.lineTo(x, y + r);
+  ctx.quadraticCurveTo(x, y, x + r, y);
+  ctx.closePath();
+}
+
+function drawEmotionGlow(
+  ctx: Canvas2DContext<unknown>,
+  centerX: number,
+  centerY: number,
+  radius: number,
+  color: string,
+  intensity: number,
+) {
+  const gradient = ctx.createRadialGradient(centerX, centerY, radius * 0.25, centerX, centerY, radius);
+  gradient.addColorStop(0, `${color}${Math.floor(160 * intensity).toString(16).padStart(2, "0")}`);
+  gradient.addColorStop(1, "rgba(0,0,0,0)");
+  ctx.fillStyle = gradient;
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+function drawProceduralFace(ctx: Canvas2DContext<unknown>, state: AvatarVisualState, avatarStyle: AvatarStyle) {
+  const eyeSeparation = 100;
+  const eyeHeight = -50;
+  const blink = ease(state.blink);
+  const eyeOpen = 26 * (1 - blink * 0.92);
+  const eyeOffsetX = state.eyeOffsetX * 12;
+  const eyeOffsetY = state.eyeOffsetY * 8;
+
+  ctx.fillStyle = "rgba(8,47,73,0.8)";
+  ctx.beginPath();
+  ctx.ellipse(-eyeSeparation / 2, eyeHeight - 10, 44, 30, 0, 0, Math.PI * 2);
+  ctx.ellipse(eyeSeparation / 2, eyeHeight - 10, 44, 30, 0, 0, Math.PI * 2);
+  ctx.fill();
+
+  [ -eyeSeparation / 2, eyeSeparation / 2 ].forEach((x) => {
+    ctx.save();
+    ctx.translate(x, eyeHeight);
+    drawRoundedRect(ctx, -32, -eyeOpen / 2 - 3, 64, eyeOpen + 6, 18);
+    ctx.clip();
+    const scleraGradient = ctx.createLinearGradient(-32, -eyeOpen, 40, eyeOpen);
+    scleraGradient.addColorStop(0, "#f8fafc");
+    scleraGradient.addColorStop(1, "#e2e8f0");
+    ctx.fillStyle = scleraGradient;
+    ctx.fillRect(-32, -eyeOpen / 2 - 3, 64, eyeOpen + 6);
+
+    ctx.fillStyle = "#0f172a";
+    ctx.beginPath();
+    ctx.arc(eyeOffsetX, eyeOffsetY * 0.8, 17, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = avatarStyle.accent;
+    ctx.beginPath();
+    ctx.arc(eyeOffsetX - 3, eyeOffsetY * 0.6, 8, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = "white";
+    ctx.beginPath();
+    ctx.arc(eyeOffsetX - 8, eyeOffsetY * 0.4, 4, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  });
+
+  ctx.strokeStyle = `rgba(255,255,255,${0.25 + state.browLift * 0.4})`;
+  ctx.lineWidth = 6;
+  ctx.lineCap = "round";
+  ctx.beginPath();
+  ctx.moveTo(-eyeSeparation / 2 - 36, eyeHeight - 42 - state.browLift * 10);
+  ctx.lineTo(-eyeSeparation / 2 + 24, eyeHeight - 52 + state.browLift * 8);
+  ctx.moveTo(eyeSeparation / 2 - 24, eyeHeight - 52 + state.browLift * 8);
+  ctx.lineTo(eyeSeparation / 2 + 36, eyeHeight - 42 - state.browLift * 10);
+  ctx.stroke();
+
+  const baseMouthWidth = 98 * ease(state.mouthWidth);
+  const openness = 48 * ease(state.mouthOpenness);
+  const roundness = 22 * ease(state.mouthRoundness);
+
+  ctx.fillStyle = "rgba(10, 10, 14, 0.85)";
+  ctx.beginPath();
+  ctx.moveTo(-baseMouthWidth / 2, 40);
+  ctx.quadraticCurveTo(0, 40 + openness, baseMouthWidth / 2, 40);
+  ctx.quadraticCurveTo(0, 40 + openness + roundness, -baseMouthWidth / 2, 40);
+  ctx.fill();
+
+  const glossGradient = ctx.createLinearGradient(-baseMouthWidth / 2, 40, baseMouthWidth / 2, 40 + openness);
+  glossGradient.addColorStop(0, `${avatarStyle.accent}88`);
+  glossGradient.addColorStop(0.5, "rgba(255,255,255,0.35)");
+  glossGradient.addColorStop(1, `${avatarStyle.accent}33`);
+  ctx.strokeStyle = glossGradient;
+  ctx.lineWidth = 4;
+  ctx.lineJoin = "round";
+  ctx.beginPath();
+  ctx.moveTo(-baseMouthWidth / 2, 38);
+  ctx.quadraticCurveTo(0, 38 + openness * 0.65, baseMouthWidth / 2, 38);
+  ctx.stroke();
+
+  ctx.fillStyle = `${avatarStyle.highlight}55`;
+  ctx.beginPath();
+  ctx.moveTo(-baseMouthWidth / 2 + 12, 38);
+  ctx.quadraticCurveTo(0, 48 + openness * 0.2, baseMouthWidth / 2 - 12, 38);
+  ctx.fill();
+}
+
+const HEAD_X = CANVAS_WIDTH / 2;
+const HEAD_Y = CANVAS_HEIGHT / 2 - 30;
+const PORTRAIT_RADIUS = 170;
+const PORTRAIT_TOP = -PORTRAIT_RADIUS - 10;
+
+// Landmark (0–1 of the photo) to head space, where the photo fills a square behind the round mask.
+const portraitPoint = (point: Point): Point => ({
+  x: -PORTRAIT_RADIUS + point.x * PORTRAIT_RADIUS * 2,
+  y: PORTRAIT_TOP + point.y * PORTRAIT_RADIUS * 2,
+});
+
+// Stage coordinates of a landmark with the head at rest, for overlays drawn on top of the canvas.
+export function portraitStagePoint(point: Point): Point {
+  const head = portraitPoint(point);
+  return { x: HEAD_X + head.x, y: HEAD_Y + head.y };
+}
+
+export function stagePortraitPoint(stage: Point): Point {
+  return clampPoint({
+    x: (stage.x - HEAD_X + PORTRAIT_RADIUS) / (PORTRAIT_RADIUS * 2),
+    y: (stage.y - HEAD_Y - PORTRAIT_TOP) / (PORTRAIT_RADIUS * 2),
+  });
+}
+
+// Redraws the photo shifted by (dx, dy) inside whatever clip path is current; this is how the
+// jaw, eyelids and brows move without any cartoon features pasted over the face.
+function drawShiftedPortrait<Image>(ctx: Canvas2DContext<Image>, image: Image, dx: number, dy: number) {
+  const size = PORTRAIT_RADIUS * 2;
+  ctx.drawImage(image, -PORTRAIT_RADIUS + dx, PORTRAIT_TOP + dy, size, size);
+}
+
+function drawPortraitFace<Image>(
+  ctx: Canvas2DContext<Image>,
+  state: AvatarVisualState,
+  image: Image,
+  landmarks: PortraitLandmarks,
+) {
+  const leftEye = portraitPoint(landmarks.leftEye);
+  const rightEye = portraitPoint(landmarks.rightEye);
+  const mouthLeft = portraitPoint(landmarks.mouthLeft);
+  const mouthRight = portraitPoint(landmarks.mouthRight);
+  const jawLeft = portraitPoint(landmarks.jawLeft);
+  const chin = portraitPoint(landmarks.chin);
+  const jawRight = portraitPoint(landmarks.jawRight);
+  const eyeSpan = Math.max(distance(leftEye, rightEye), 1);
+  const mouthSpan = Math.max(distance(mouthLeft, mouthRight), 1);
+  const mouthCenter = midpoint(mouthLeft, mouthRight);
+  const mouthAngle = Math.atan2(mouthRight.y - mouthLeft.y, mouthRight.x - mouthLeft.x);
+  const eyeAngle = Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x);
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(0, -10, PORTRAIT_RADIUS, 0, Math.PI * 2);
+  ctx.closePath();
+  ctx.clip();
+  drawShiftedPortrait(ctx, image, 0, 0);
+
+  // Brows: the band above each eye rises and falls with browLift (0.2 is the resting value).
+  const browShift = (state.browLift - 0.2) * eyeSpan * 0.14;
+  const eyeRadiusX = eyeSpan * 0.24;
+  const eyeRadiusY = eyeSpan * 0.12;
+  [leftEye, rightEye].forEach((eye) => {
+    if (Math.abs(browShift) < 0.3) return;
+    ctx.save();
+    ctx.beginPath();
+    ctx.ellipse(eye.x, eye.y - eyeRadiusY * 2.4, eyeRadiusX * 1.25, eyeRadiusY * 1.3, eyeAngle, 0, Math.PI * 2);
+    ctx.clip();
+    drawShiftedPortrait(ctx, image, 0, -browShift);
+    ctx.restore();
+  });
+
+  // Eyelids: the skin above each eye slides down over it as the blink closes.
+  const lid = ease(state.blink) * eyeRadiusY * 2;
+  [leftEye, rightEye].forEach((eye) => {
+    if (lid < 0.3) return;
+    ctx.save();
+    ctx.beginPath();
+    ctx.ellipse(eye.x, eye.y, eyeRadiusX, eyeRadiusY, eyeAngle, 0, Math.PI * 2);
+    ctx.clip();
+    drawShiftedPortrait(ctx, image, 0, lid);
+    ctx.strokeStyle = "rgba(20,10,10,0.35)";
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.ellipse(eye.x, eye.y - eyeRadiusY + lid, eyeRadiusX, eyeRadiusY * 0.25, eyeAngle, 0, Math.PI);
+    ctx.stroke();
+    ctx.restore();
+  });
+
+  // Jaw: everything between the mouth line and the chin outline drops as the mouth opens, and the
+  // gap it leaves becomes the mouth cavity.
+  const drop = mouthSpan * 0.32 * ease(state.mouthOpenness);
+  if (drop > 0.3) {
+    const pad = mouthSpan * 0.12;
+    ctx.save();
+    ctx.beginPath();
+    ctx.moveTo(mouthLeft.x - pad, mouthLeft.y);
+    ctx.lineTo(mouthRight.x + pad, mouthRight.y);
+    ctx.lineTo(jawRight.x, jawRight.y + drop);
+    ctx.quadraticCurveTo(chin.x + (jawRight.x - chin.x) * 0.4, chin.y + drop, chin.x, chin.y + drop);
+    ctx.quadraticCurveTo(chin.x + (jawLeft.x - chin.x) * 0.4, chin.y + drop, jawLeft.x, jawLeft.y + drop);
+    ctx.closePath();
+    ctx.clip();
+    drawShiftedPortrait(ctx, image, 0, drop);
+    ctx.restore();
+  }
+
+  const halfWidth = (mouthSpan / 2) * (0.8 + 0.35 * ease(state.mouthWidth)) * (1 - 0.22 * ease(state.mouthRoundness));
+  const depth = drop * 2 + mouthSpan * 0.08 * ease(state.mouthRoundness) * ease(state.mouthOpenness);
+  ctx.save();
+  ctx.translate(mouthCenter.x, mouthCenter.y);
+  ctx.rotate(mouthAngle);
+  ctx.fillStyle = "rgba(28, 8, 10, 0.88)";
+  ctx.beginPath();
+  ctx.moveTo(-halfWidth, 0);
+  ctx.quadraticCurveTo(0, -drop * 0.15, halfWidth, 0);
+  ctx.quadraticCurveTo(0, depth, -halfWidth, 0);
+  ctx.fill();
+  if (drop > 2) {
+    ctx.clip();
+    ctx.fillStyle = "rgba(241,245,249,0.75)";
+    ctx.fillRect(-halfWidth * 0.6, -drop * 0.1, halfWidth * 1.2, Math.min(drop * 0.35, mouthSpan * 0.1));
+  }
+  ctx.restore();
+
+  ctx.restore();
+}
+
+// Karaoke layer: the current cue wrapped to the safe area, spoken words in the caption colour,
+// the active word in the highlight colour and upcoming words dimmed.
+function drawCaptions(ctx: Canvas2DContext<unknown>, { frame, style }: CaptionLayer) {
+  if (frame.words.length === 0) return;
+  const maxWidth = CANVAS_WIDTH - style.margin * 2 - 32;
+  ctx.save();
+  ctx.font = `700 ${style.fontSize}px 'Inter', sans-serif`;
+  ctx.textBaseline = "middle";
+  const space = ctx.measureText(" ").width;
+
+  const lines: { index: number; width: number }[][] = [[]];
+  let lineWidth = 0;
+  frame.words.forEach((word, index) => {
+    const width = ctx.measureText(word).width;
+    const line = lines[lines.length - 1];
+    if (line.length > 0 && lineWidth + space + width > maxWidth) {
+      lines.push([{ index, width }]);
+      lineWidth = width;
+    } else {
+      line.push({ index, width });
+      lineWidth += (line.length > 1 ? space : 0) + width;
+    }
+  });
+
+  const lineHeight = style.fontSize * 1.3;
+  const blockHeight = lines.length * lineHeight + 20;
+  const widest = Math.max(
+    ...lines.map((line) => line.reduce((total, word) => total + word.width, 0) + space * (line.length - 1)),
+  );
+  const top = {
+    top: style.margin,
+    middle: (CANVAS_HEIGHT - blockHeight) / 2,
+    bottom: CANVAS_HEIGHT - style.margin - blockHeight,
+  }[style.position];
+
+  ctx.fillStyle = "rgba(2,6,23,0.62)";
+  drawRoundedRect(ctx, (CANVAS_WIDTH - widest) / 2 - 16, top, widest + 32, blockHeight, 14);
+  ctx.fill();
+
+  lines.forEach((line, row) => {
+    const width = line.reduce((total, word) => total + word.width, 0) + space * (line.length - 1);
+    let x = (CANVAS_WIDTH - width) / 2;
+    const y = top + 10 + lineHeight * (row + 0.5);
+    line.forEach((word) => {
+      if (word.index === frame.active) {
+        ctx.fillStyle = style.highlight;
+      } else {
+        ctx.fillStyle = style.color;
+        ctx.globalAlpha = word.index < frame.active ? 1 : 0.55;
+      }
+      ctx.fillText(frame.words[word.index], x, y);
+      ctx.globalAlpha = 1;
+      x += word.width + space;
+    });
+  });
+  ctx.restore();
+}
+
+const studioBackground = { kind: "studio" } as const;
+
+function drawBackground<Image>(ctx: Canvas2DContext<Image>, background: StageBackground<Image>) {
+  switch (background.kind) {
+    case "studio": {
+      const backgroundGradient = ctx.createLinearGradient(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      backgroundGradient.addColorStop(0, "rgba(3,7,18,0.65)");
+      backgroundGradient.addColorStop(1, "rgba(5,12,34,0.95)");
+      ctx.fillStyle = backgroundGradient;
+      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+      ctx.fillStyle = "rgba(255,255,255,0.04)";
+      for (let i = 0; i < 3; i++) {
+        const radius = 160 + i * 80;
+        ctx.beginPath();
+        ctx.arc(260, 220, radius, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      return;
+    }
+    case "solid":
+    case "chroma":
+      ctx.fillStyle = background.kind === "chroma" ? CHROMA_GREEN : background.color;
+      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      return;
+    case "media": {
+      if (!background.width || !background.height) return;
+      const scale = Math.max(CANVAS_WIDTH / background.width, CANVAS_HEIGHT / background.height);
+      const width = background.width * scale;
+      const height = background.height * scale;
+      ctx.drawImage(background.source, (CANVAS_WIDTH - width) / 2, (CANVAS_HEIGHT - height) / 2, width, height);
+      return;
+    }
+    case "transparent":
+      return;
+  }
+}
+
+function drawFrameBorder(ctx: Canvas2DContext<unknown>) {
+  ctx.strokeStyle = "rgba(148,163,184,0.18)";
+  ctx.lineWidth = 1.4;
+  ctx.strokeRect(0.5, 0.5, CANVAS_WIDTH - 1, CANVAS_HEIGHT - 1);
+}
+
+const SHOULDER_X = 110;
+const SHOULDER_Y = 130;
+const UPPER_ARM = 70;
+const FOREARM = 62;
+
+// `side` is -1 for the viewer's left, 1 for the right. Angles follow ArmPose: 0 hangs straight
+// down and positive swings outward.
+const limbDirection = (degrees: number, side: number): Point => {
+  const radians = (degrees * Math.PI) / 180;
+  return { x: side * Math.sin(radians), y: Math.cos(radians) };
+};
+
+function drawArm(
+  ctx: Canvas2DContext<unknown>,
+  arm: ArmPose,
+  hand: HandPose,
+  side: number,
+  shoulders: number,
+  avatarStyle: AvatarStyle,
+) {
+  const shoulder = { x: side * SHOULDER_X, y: SHOULDER_Y - 26 * shoulders };
+  const upper = limbDirection(arm.raise, side);
+  const elbow = { x: shoulder.x + upper.x * UPPER_ARM, y: shoulder.y + upper.y * UPPER_ARM };
+  const lower = limbDirection(arm.raise + arm.bend, side);
+  const wrist = { x: elbow.x + lower.x * FOREARM, y: elbow.y + lower.y * FOREARM };
+
+  ctx.strokeStyle = `${avatarStyle.clothing}cc`;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  ctx.lineWidth = 46;
+  ctx.beginPath();
+  ctx.moveTo(shoulder.x, shoulder.y);
+  ctx.lineTo(elbow.x, elbow.y);
+  ctx.stroke();
+  ctx.lineWidth = 38;
+  ctx.beginPath();
+  ctx.moveTo(elbow.x, elbow.y);
+  ctx.lineTo(wrist.x, wrist.y);
+  ctx.stroke();
+
+  const skin = `${avatarStyle.skin}dd`;
+  const palm = { x: wrist.x + lower.x * 14, y: wrist.y + lower.y * 14 };
+  const along = Math.atan2(lower.y, lower.x);
+  ctx.fillStyle = skin;
+  ctx.beginPath();
+  ctx.ellipse(palm.x, palm.y, 20, 24 - hand.point * 4, along - Math.PI / 2, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.strokeStyle = skin;
+  ctx.lineWidth = 8;
+  if (hand.open > 0.3) {
+    // Fingers fan out around the forearm's line as the hand opens.
+    const spread = (hand.open - 0.3) / 0.7;
+    for (let finger = -1.5; finger <= 1.5; finger += 1) {
+      const angle = along + finger * 0.3 * spread;
+      const length = 10 + 12 * spread;
+      ctx.beginPath();
+      ctx.moveTo(palm.x + Math.cos(angle) * 16, palm.y + Math.sin(angle) * 16);
+      ctx.lineTo(palm.x + Math.cos(angle) * (16 + length), palm.y + Math.sin(angle) * (16 + length));
+      ctx.stroke();
+    }
+  }
+  if (hand.point > 0) {
+    ctx.beginPath();
+    ctx.moveTo(palm.x + lower.x * 18, palm.y + lower.y * 18);
+    ctx.lineTo(palm.x + lower.x * (18 + 24 * hand.point), palm.y + lower.y * (18 + 24 * hand.point));
+    ctx.stroke();
+  }
+}
+
+// Drawn in body space, after the head, so a raised hand passes in front of the face.
+function drawArms(ctx: Canvas2DContext<unknown>, pose: BodyPose, avatarStyle: AvatarStyle) {
+  drawArm(ctx, pose.leftArm, pose.leftHand, -1, pose.shoulders, avatarStyle);
+  drawArm(ctx, pose.rightArm, pose.rightHand, 1, pose.shoulders, avatarStyle);
+}
+
+// Draws one frame in stage coordinates (CANVAS_WIDTH × CANVAS_HEIGHT); scale the context first
+// for other output sizes. Pure: it reads nothing but its arguments, so the live stage, offline
+// exports and server renders all produce the same pixels.
+export function renderAvatarFrame<Image = CanvasImageSource>(
+  ctx: Canvas2DContext<Image>,
+  state: AvatarVisualState,
+  avatarStyle: AvatarStyle,
+  {
+    image = null,
+    landmarks = null,
+    caption = null,
+    background = studioBackground,
+    overlay = false,
+  }: RenderOptions<Image> = {},
+) {
+  const framed = background.kind === "studio";
+  const pose = state.pose ?? restPose(state.handCycle);
+  if (!overlay) ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+  ctx.save();
+  if (framed) {
+    drawRoundedRect(ctx, 0, 0, CANVAS_WIDTH, CANVAS_HEIGHT, 36);
+    ctx.clip();
+  }
+  drawBackground(ctx, background);
+
+  // The glow would tint the key colour and spoil a green-screen pull.
+  if (background.kind !== "chroma") {
+    drawEmotionGlow(ctx, 260, 260, 220, avatarStyle.accent.replace("#", "#"), ease(state.emotionIntensity));
+  }
+
+  ctx.save();
+  ctx.translate(CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 30);
+  ctx.save();
+  // Turn and tilt already include the pose's yaw and roll; a nod and a shrug's sunken head are
+  // only in the pose.
+  ctx.translate(0, 10 * pose.shoulders);
+  ctx.rotate((state.headTilt * Math.PI) / 180);
+  ctx.translate(0, 12 * ease(state.headTilt / 15) + pose.head.pitch * 1.5);
+  ctx.scale(1 + state.headTurn * 0.03, 1);
+
+  if (image) {
+    drawPortraitFace(ctx, state, image, landmarks ?? defaultLandmarks);
+  } else {
+    ctx.save();
+    const headGradient = ctx.createLinearGradient(-140, -200, 140, 160);
+    headGradient.addColorStop(0, avatarStyle.base);
+    headGradient.addColorStop(1, avatarStyle.secondary);
+    ctx.fillStyle = headGradient;
+    ctx.beginPath();
+    ctx.ellipse(0, -30, 150, 190, 0, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.strokeStyle = "rgba(255,255,255,0.08)";
+    ctx.lineWidth = 4;
+    ctx.beginPath();
+    ctx.ellipse(0, -30, 152, 192, 0, 0, Math.PI * 2);
+    ctx.stroke();
+
+    const hairGradient = ctx.createLinearGradient(-140, -200, 140, -80);
+    hairGradient.addColorStop(0, avatarStyle.highlight);
+    hairGradient.addColorStop(1, avatarStyle.base);
+    ctx.fillStyle = hairGradient;
+    ctx.beginPath();
+    ctx.ellipse(0, -150, 180, 120, 0, Math.PI, 0);
+    ctx.fill();
+    ctx.closePath();
+
+    drawProceduralFace(ctx, state, avatarStyle);
+  }
+
+  const emotionHue = {
+    happy: "#34d399",
+    sad: "#60a5fa",
+    angry: "#fb7185",
+    surprised: "#facc15",
+    neutral: avatarStyle.accent,
+  }[state.emotion];
+
+  ctx.strokeStyle = `${emotionHue}55`;
+  ctx.lineWidth = 5;
+  ctx.beginPath();
+  ctx.arc(0, 90, 120, Math.PI * 0.15, Math.PI * 0.85);
+  ctx.stroke();
+
+  ctx.restore();
+  drawArms(ctx, pose, avatarStyle);
+
+  ctx.restore();
+  ctx.restore();
+
+  // Captions take over the bottom of the frame, so the token readout steps aside for them.
+  if (caption) {
+    if (framed) drawFrameBorder(ctx);
+    drawCaptions(ctx, caption);
+    return;
+  }
+  if (!framed) return;
+  drawFrameBorder(ctx);
+
+  ctx.fillStyle = "rgba(2,6,23,0.68)";
+  ctx.fillRect(24, CANVAS_HEIGHT - 72, 220, 48);
+  ctx.fillStyle = "rgba(96,165,250,0.28)";
+  ctx.fillRect(24, CANVAS_HEIGHT - 20, 220 * ease(state.audioLevel), 5);
+
+  ctx.fillStyle = "rgba(255,255,255,0.85)";
+  ctx.font = "600 16px 'Inter', sans-serif";
+  ctx.fillText(state.timelineLabel ?? "Idle", 38, CANVAS_HEIGHT - 42);
+  ctx.fillStyle = "rgba(148,163,184,0.9)";
+  ctx.font = "500 13px 'Inter', sans-serif";
+  ctx.fillText(`VIS ${state.emotion.toUpperCase()} · ${(state.audioLevel * 100).toFixed(0)}%`, 38, CANVAS_HEIGHT - 24);
+}
+
+export type ScenePresenter = {
+  state: AvatarVisualState;
+  style: AvatarStyle;
+};
+
+export type SceneLayout = "side" | "turns";
+
+// Several presenters in one frame. "side" shrinks every presenter into its own panel across the
+// stage and rings whoever is talking; "turns" cuts to the active speaker full frame.
+export function renderSceneFrame<Image = CanvasImageSource>(
+  ctx: Canvas2DContext<Image>,
+  presenters: ScenePresenter[],
+  active: number,
+  layout: SceneLayout,
+  options: RenderOptions<Image> = {},
+) {
+  const current = presenters[active] ?? presenters[0];
+  if (!current) return;
+  if (layout === "turns" || presenters.length === 1) {
+    renderAvatarFrame(ctx, current.state, current.style, options);
+    return;
+  }
+
+  // On the studio backdrop every presenter gets their own card; any other background is shared
+  // and the presenters stand on it directly.
+  const shared = options.background && options.background.kind !== "studio" ? options.background : null;
+  ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  if (shared) drawBackground(ctx, shared);
+  const gap = 12;
+  const panel = (CANVAS_WIDTH - gap * (presenters.length + 1)) / presenters.length;
+  const top = (CANVAS_HEIGHT - panel) / 2;
+  presenters.forEach((presenter, index) => {
+    const left = gap + index * (panel + gap);
+    ctx.save();
+    ctx.translate(left, top);
+    ctx.scale(panel / CANVAS_WIDTH, panel / CANVAS_HEIGHT);
+    renderAvatarFrame(ctx, presenter.state, presenter.style, {
+      background: shared ? { kind: "transparent" } : studioBackground,
+      overlay: !!shared,
+    });
+    ctx.restore();
+    if (index === active && !shared) {
+      ctx.strokeStyle = presenter.style.accent;
+      ctx.lineWidth = 3;
+      drawRoundedRect(ctx, left - 2, top - 2, panel + 4, panel + 4, 36 * (panel / CANVAS_WIDTH) + 2);
+      ctx.stroke();
+    }
+  });
+  if (options.caption) drawCaptions(ctx, options.caption);
+}
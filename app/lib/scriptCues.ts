@@ -0,0 +1,194 @@
+import type { Emotion } from "./avatars";
+import { gestureNames, type Gesture } from "./gestures";
+import {
+  breakDuration,
+  defaultProsody,
+  emphasisProsody,
+  parsePitch,
+  parseRate,
+  readAttributes,
+  sayAs,
+  type TokenProsody,
+} from "./ssml";
+
+export type ScriptCue =
+  | { kind: "emotion"; tokenIndex: number; emotion: Emotion; intensity: number }
+  | { kind: "pause"; tokenIndex: number; duration: number }
+  | { kind: "gesture"; tokenIndex: number; gesture: Gesture };
+
+export type ParsedScript = {
+  // Script with every recognised tag removed; this is what gets spoken and tokenised.
+  text: string;
+  cues: ScriptCue[];
+  // One entry per whitespace-separated token of `text`, from the enclosing SSML elements.
+  prosody: TokenProsody[];
+};
+
+export type SpeechChunk = {
+  text: string;
+  // Character offset of `text` inside ParsedScript.text, for mapping boundary events back.
+  offset: number;
+  pauseAfter: number;
+  rate: number;
+  pitch: number;
+  // Voice name overriding the selected one, for dialogue scenes.
+  voice?: string | null;
+};
+
+const cueEmotions: Emotion[] = ["neutral", "happy", "sad", "angry", "surprised"];
+const MAX_PAUSE = 10_000;
+
+// Either a bracket cue ([happy], [sad:0.6], [pause 800ms], [point-left]) or an SSML-style element tag.
+const MARKUP_PATTERN = /\[([a-z]+(?:-[a-z]+)*)(?::([\d.]+)|\s+([\d.]+)\s*(ms|s)?)?\]|<(\/?)([a-z][a-z-]*)\b([^<>]*?)\/?>/gi;
+const SAY_AS_PATTERN = /<say-as\b([^<>]*)>([\s\S]*?)<\/say-as>/gi;
+const STRUCTURE_TAGS = new Set(["speak", "p", "s"]);
+
+type CueBody =
+  | { kind: "emotion"; emotion: Emotion; intensity: number }
+  | { kind: "pause"; duration: number }
+  | { kind: "gesture"; gesture: Gesture };
+
+const readTag = (name: string, level?: string, amount?: string, unit?: string): CueBody | null => {
+  const id = name.toLowerCase();
+  if ((cueEmotions as string[]).includes(id) && amount === undefined) {
+    const intensity = level === undefined ? 1 : parseFloat(level);
+    if (!Number.isFinite(intensity)) return null;
+    return { kind: "emotion", emotion: id as Emotion, intensity: Math.max(0, Math.min(1, intensity)) };
+  }
+  if (id === "pause" && amount !== undefined && level === undefined) {
+    const value = parseFloat(amount) * (unit?.toLowerCase() === "s" ? 1000 : 1);
+    if (!Number.isFinite(value)) return null;
+    return { kind: "pause", duration: Math.max(0, Math.min(MAX_PAUSE, value)) };
+  }
+  if ((gestureNames as string[]).includes(id) && level === undefined && amount === undefined) {
+    return { kind: "gesture", gesture: id as Gesture };
+  }
+  return null;
+};
+
+const combine = (outer: TokenProsody, inner: TokenProsody): TokenProsody => ({
+  rate: outer.rate * inner.rate,
+  pitch: outer.pitch * inner.pitch,
+  emphasis: Math.max(outer.emphasis, inner.emphasis),
+});
+
+// Cue tags anchor to the word that follows them. Supported SSML: <break>, <emphasis>,
+// <prosody rate pitch> and <say-as> (expanded to words up front); <speak>, <p> and <s> are
+// accepted and ignored. Anything in brackets or angle brackets that is not recognised is left
+// in the text untouched, so "[sic]" and the like still get read out.
+export function parseScriptCues(script: string): ParsedScript {
+  const source = script.replace(SAY_AS_PATTERN, (_match, attributes: string, inner: string) => {
+    const { "interpret-as": interpretAs = "", format } = readAttributes(attributes);
+    return sayAs(inner, interpretAs, format);
+  });
+
+  const cues: ScriptCue[] = [];
+  const prosody: TokenProsody[] = [];
+  const stack: Array<{ tag: string; prosody: TokenProsody }> = [];
+  const current = () => stack[stack.length - 1]?.prosody ?? defaultProsody;
+  let text = "";
+  let inWord = false;
+
+  // Each token takes the prosody in force where its first character appears.
+  const append = (piece: string) => {
+    for (const char of piece) {
+      const space = /\s/.test(char);
+      if (!space && !inWord) prosody.push(current());
+      inWord = !space;
+      text += char;
+    }
+  };
+
+  let cursor = 0;
+  for (const match of Array.from(source.matchAll(MARKUP_PATTERN))) {
+    const start = match.index ?? 0;
+    const [raw, cueName, level, amount, unit, closing, tagName, attributeSource] = match;
+    let handled = true;
+
+    if (cueName) {
+      const cue = readTag(cueName, level, amount, unit);
+      if (cue) {
+        append(source.slice(cursor, start) + " ");
+        cues.push({ ...cue, tokenIndex: prosody.length });
+      } else {
+        handled = false;
+      }
+    } else {
+      const tag = tagName.toLowerCase();
+      const attributes = readAttributes(attributeSource);
+      append(source.slice(cursor, start));
+      if (tag === "break" && !closing) {
+        append(" ");
+        cues.push({ kind: "pause", tokenIndex: prosody.length, duration: Math.min(MAX_PAUSE, breakDuration(attributes)) });
+      } else if ((tag === "emphasis" || tag === "prosody") && closing) {
+        const index = stack.map((frame) => frame.tag).lastIndexOf(tag);
+        if (index >= 0) stack.splice(index);
+      } else if (tag === "emphasis") {
+        const level = attributes.level?.toLowerCase() ?? "moderate";
+        const shape = Object.hasOwn(emphasisProsody, level) ? emphasisProsody[level] : emphasisProsody.moderate;
+        stack.push({ tag, prosody: combine(current(), shape) });
+      } else if (tag === "prosody") {
+        const shape = { rate: parseRate(attributes.rate), pitch: parsePitch(attributes.pitch), emphasis: 0 };
+        stack.push({ tag, prosody: combine(current(), shape) });
+      } else if (STRUCTURE_TAGS.has(tag)) {
+        append(" ");
+      } else {
+        append(raw);
+      }
+    }
+    if (handled) cursor = start + raw.length;
+  }
+  append(source.slice(cursor));
+
+  // Drop the padding the removed tags left behind without touching the original line breaks.
+  const clean = text.replace(/[ \t]{2,}/g, " ").trim();
+  return {
+    text: clean,
+    cues: cues.map((cue) => ({ ...cue, tokenIndex: Math.min(cue.tokenIndex, prosody.length) })),
+    prosody,
+  };
+}
+
+// Per-token silence the timeline should hold after each word, from the pause cues. A pause
+// before the first word has nothing to follow and is ignored.
+export function pauseHolds(parsed: ParsedScript) {
+  const tokenCount = (parsed.text.match(/\S+/g) ?? []).length;
+  const holds = new Array<number>(tokenCount).fill(0);
+  parsed.cues.forEach((cue) => {
+    if (cue.kind !== "pause" || cue.tokenIndex === 0) return;
+    holds[cue.tokenIndex - 1] += cue.duration;
+  });
+  return holds;
+}
+
+// Splits the spoken text into an utterance queue: a new utterance starts after every pause
+// (speech synthesis has no silence primitive) and wherever the rate or pitch changes.
+export function speechChunks(parsed: ParsedScript): SpeechChunk[] {
+  const words = Array.from(parsed.text.matchAll(/\S+/g));
+  const holds = pauseHolds(parsed);
+  const prosodyAt = (index: number) => parsed.prosody[index] ?? defaultProsody;
+  const chunks: SpeechChunk[] = [];
+  let start = 0;
+  words.forEach((word, index) => {
+    const next = prosodyAt(index + 1);
+    const changes = next.rate !== prosodyAt(index).rate || next.pitch !== prosodyAt(index).pitch;
+    const isLast = index === words.length - 1;
+    if (holds[index] === 0 && !changes && !isLast) return;
+    const end = (word.index ?? 0) + word[0].length;
+    const offset = words[start].index ?? 0;
+    const { rate, pitch } = prosodyAt(start);
+    chunks.push({ text: parsed.text.slice(offset, end), offset, pauseAfter: holds[index], rate, pitch });
+    start = index + 1;
+  });
+  return chunks;
+}
+
+// The remainder of an utterance queue starting at `charOffset` in the spoken text, used to
+// pick speech back up mid-script after a seek.
+export function speechChunksFrom(chunks: SpeechChunk[], charOffset: number): SpeechChunk[] {
+  const index = chunks.findIndex((chunk) => charOffset < chunk.offset + chunk.text.length);
+  if (index < 0) return [];
+  const first = chunks[index];
+  const skip = Math.max(0, charOffset - first.offset);
+  return [{ ...first, text: first.text.slice(skip), offset: first.offset + skip }, ...chunks.slice(index + 1)];
+}
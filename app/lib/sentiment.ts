@@ -0,0 +1,199 @@
+import type { Mood } from "./audioMood";
+import type { Emotion } from "./avatars";
+import type { ScriptCue } from "./scriptCues";
+
+export type SentenceTag = {
+  // Token range [from, to) of the sentence in the spoken text.
+  from: number;
+  to: number;
+  text: string;
+  // Normalised sentence text; edits are stored against it so they survive edits elsewhere.
+  key: string;
+  emotion: Emotion;
+  intensity: number;
+  // "scripted" tags start at an emotion cue in the script and show the emotion in force at
+  // their end; the cues always win over a tag.
+  source: "lexicon" | "edited" | "scripted";
+};
+
+export type SentimentOverrides = Record<string, Mood>;
+
+// Keys are sentence text, so the map has no prototype for a sentence like "Constructor." to hit.
+export const emptySentimentOverrides = (): SentimentOverrides => Object.create(null);
+
+// Enables sentence tagging in buildTextTrack. Neutral sentences keep the last scripted emotion,
+// or `baseEmotion` before any, so the script and the studio still set the tone between the
+// charged lines.
+export type SentimentOptions = { baseEmotion: Emotion; overrides: SentimentOverrides };
+
+type Scored = Exclude<Emotion, "neutral">;
+
+// Small hand-picked lexicon; weights are how strongly a word on its own suggests the emotion.
+const lexicon: Record<Scored, Record<string, number>> = {
+  happy: {
+    happy: 1, glad: 1, great: 0.8, good: 0.5, love: 1, lovely: 0.9, wonderful: 1, amazing: 0.9, awesome: 0.9,
+    excellent: 0.9, fantastic: 1, delighted: 1, excited: 0.9, enjoy: 0.7, fun: 0.7, thanks: 0.6, thank: 0.6,
+    welcome: 0.5, congratulations: 1, celebrate: 0.9, win: 0.7, success: 0.8, proud: 0.8, beautiful: 0.8,
+    perfect: 0.8, smile: 0.7, laugh: 0.7, hope: 0.4, best: 0.6, nice: 0.6, cheers: 0.7, yay: 1,
+  },
+  sad: {
+    sad: 1, sorry: 0.8, unfortunately: 0.8, miss: 0.6, lost: 0.7, lose: 0.6, loss: 0.8, alone: 0.7, lonely: 0.9,
+    cry: 0.9, tears: 0.9, grief: 1, hurt: 0.7, pain: 0.7, regret: 0.8, disappointed: 0.9, tired: 0.5,
+    goodbye: 0.6, gone: 0.5, died: 1, death: 0.9, sick: 0.6, worse: 0.6, fail: 0.7, failed: 0.8, never: 0.3,
+    heartbroken: 1, sigh: 0.7, nobody: 0.5,
+  },
+  angry: {
+    angry: 1, furious: 1, mad: 0.8, hate: 1, outrageous: 1, unacceptable: 1, ridiculous: 0.8, stupid: 0.8,
+    annoying: 0.7, annoyed: 0.8, enough: 0.5, stop: 0.6, terrible: 0.7, awful: 0.7, worst: 0.8, damn: 0.9,
+    liar: 0.9, unfair: 0.8, demand: 0.6, refuse: 0.6, sick: 0.3, fed: 0.4, disgusting: 0.9, wrong: 0.4,
+  },
+  surprised: {
+    wow: 1, whoa: 1, what: 0.3, really: 0.4, unbelievable: 1, incredible: 0.8, shocking: 1, shocked: 1,
+    surprise: 0.9, surprised: 1, suddenly: 0.7, unexpected: 0.9, imagine: 0.5, believe: 0.4, seriously: 0.6,
+    omg: 1, oh: 0.5, huh: 0.7, astonishing: 1,
+  },
+};
+
+const NEGATIONS = new Set(["not", "no", "never", "nothing", "hardly", "without"]);
+const INTENSIFIERS: Record<string, number> = {
+  very: 1.5, so: 1.4, really: 1.3, extremely: 1.8, totally: 1.5, absolutely: 1.6, too: 1.2,
+};
+// How many words after a negation or intensifier it still applies to.
+const MODIFIER_REACH = 3;
+// Below this the sentence reads as neutral.
+const NEUTRAL_BELOW = 0.6;
+
+const SENTENCE_END = /[.!?…]["'”’)\]]*$/;
+
+const normalise = (token: string) =>
+  token
+    .toLowerCase()
+    .replace(/[’']/g, "'")
+    .replace(/^[^a-z']+|[^a-z']+$/g, "");
+
+// Exact match first, then the word with a common inflection taken off.
+const lookup = (word: string, emotion: Scored) => {
+  const entries = lexicon[emotion];
+  const weight = (key: string) => (Object.hasOwn(entries, key) ? entries[key] : undefined);
+  const stem = word.replace(/(ing|ed|ly|es|s)$/, "");
+  return weight(word) ?? weight(stem) ?? weight(`${stem}e`) ?? 0;
+};
+
+export const sentenceKey = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[!?.,;:"“”()…]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Lexicon and punctuation only, so it runs offline and instantly: word scores per emotion,
+// negation swaps happy and sad, intensifiers and shouting scale, "!" raises intensity and
+// "?!" or "!?" reads as surprise.
+export function classifySentence(tokens: string[]): Mood {
+  const scores: Record<Scored, number> = { happy: 0, sad: 0, angry: 0, surprised: 0 };
+  let negatedFor = 0;
+  let boost = 1;
+  let boostedFor = 0;
+  tokens.forEach((token) => {
+    const word = normalise(token);
+    if (!word) return;
+    if (NEGATIONS.has(word) || word.endsWith("n't")) {
+      negatedFor = MODIFIER_REACH;
+      return;
+    }
+    if (Object.hasOwn(INTENSIFIERS, word)) {
+      boost = INTENSIFIERS[word];
+      boostedFor = MODIFIER_REACH;
+    }
+    const shouted = token.length > 2 && token === token.toUpperCase() && /[A-Z]/.test(token) ? 1.4 : 1;
+    (Object.keys(scores) as Scored[]).forEach((emotion) => {
+      const weight = lookup(word, emotion) * (boostedFor > 0 ? boost : 1) * shouted;
+      if (!weight) return;
+      // "not happy" leans sad and "not sad" leans mildly happy; other emotions just weaken.
+      if (negatedFor > 0 && emotion === "happy") scores.sad += weight * 0.8;
+      else if (negatedFor > 0 && emotion === "sad") scores.happy += weight * 0.4;
+      else scores[emotion] += negatedFor > 0 ? weight * 0.3 : weight;
+    });
+    if (shouted > 1) scores.angry += 0.3;
+    negatedFor = Math.max(0, negatedFor - 1);
+    boostedFor = Math.max(0, boostedFor - 1);
+  });
+
+  const ending = tokens.join(" ").match(/[.!?…]+["'”’)\]]*$/)?.[0] ?? "";
+  const exclaims = (ending.match(/!/g) ?? []).length;
+  if (/\?!|!\?/.test(ending)) scores.surprised += 1;
+  if (exclaims > 0) {
+    // An exclamation amplifies whatever the words already say.
+    (Object.keys(scores) as Scored[]).forEach((emotion) => {
+      scores[emotion] *= 1 + 0.25 * Math.min(3, exclaims);
+    });
+  }
+  if (ending.startsWith("…") || ending.startsWith("...")) scores.sad += 0.3;
+
+  const [emotion, score] = (Object.entries(scores) as [Scored, number][]).reduce((best, entry) =>
+    entry[1] > best[1] ? entry : best,
+  );
+  if (score < NEUTRAL_BELOW) return { emotion: "neutral", intensity: 0.5 };
+  return { emotion, intensity: Math.min(1, 0.35 + score * 0.25 + Math.min(3, exclaims) * 0.1) };
+}
+
+// Token ranges ending at sentence punctuation; trailing words without any form the last one.
+export function splitSentences(tokens: string[]) {
+  const sentences: { from: number; to: number }[] = [];
+  let from = 0;
+  tokens.forEach((token, index) => {
+    if (SENTENCE_END.test(token)) {
+      sentences.push({ from, to: index + 1 });
+      from = index + 1;
+    }
+  });
+  if (from < tokens.length) sentences.push({ from, to: tokens.length });
+  return sentences;
+}
+
+// Tags every sentence of the spoken text. User edits (by sentence key) replace the lexicon's
+// guess; from a scripted emotion cue on, a sentence is reported but left to its cues, and the
+// words ahead of a cue placed mid-sentence are tagged on their own.
+export function tagSentences(tokens: string[], cues: ScriptCue[], overrides: SentimentOverrides): SentenceTag[] {
+  const tag = (from: number, to: number): SentenceTag => {
+    const words = tokens.slice(from, to);
+    const text = words.join(" ");
+    const key = sentenceKey(text);
+    const edited = Object.hasOwn(overrides, key) ? overrides[key] : undefined;
+    const mood = edited ?? classifySentence(words);
+    return { from, to, text, key, ...mood, source: edited ? "edited" : "lexicon" };
+  };
+  return splitSentences(tokens).flatMap(({ from, to }) => {
+    const scripted = cues.flatMap((cue) =>
+      cue.kind === "emotion" && cue.tokenIndex >= from && cue.tokenIndex < to ? [cue] : [],
+    );
+    if (scripted.length === 0) return [tag(from, to)];
+    const start = scripted[0].tokenIndex;
+    const { emotion, intensity } = scripted[scripted.length - 1];
+    const text = tokens.slice(start, to).join(" ");
+    const own: SentenceTag = { from: start, to, text, key: sentenceKey(text), emotion, intensity, source: "scripted" };
+    return start > from ? [tag(from, start), own] : [own];
+  });
+}
+
+// Emotion cues for the text timeline: one at each tag with an emotion, and one at the first
+// neutral tag after it, back to the last scripted emotion (`baseEmotion` before any). Neutral
+// tags add nothing otherwise, so a scripted "[happy]" holds through plain sentences.
+export function sentimentCues(tags: SentenceTag[], baseEmotion: Emotion): ScriptCue[] {
+  let held: Mood = { emotion: baseEmotion, intensity: 1 };
+  let tagged = false;
+  return tags.flatMap((tag): ScriptCue[] => {
+    if (tag.source === "scripted") {
+      held = { emotion: tag.emotion, intensity: tag.intensity };
+      tagged = false;
+      return [];
+    }
+    if (tag.emotion !== "neutral") {
+      tagged = true;
+      return [{ kind: "emotion", tokenIndex: tag.from, emotion: tag.emotion, intensity: tag.intensity }];
+    }
+    if (!tagged) return [];
+    tagged = false;
+    return [{ kind: "emotion", tokenIndex: tag.from, ...held }];
+  });
+}
@@ -0,0 +1,213 @@
+export type TokenProsody = {
+  // Multipliers on the voice's rate and pitch sliders.
+  rate: number;
+  pitch: number;
+  // 0 for plain words, up to 1 for <emphasis level="strong">.
+  emphasis: number;
+};
+
+export const defaultProsody: TokenProsody = { rate: 1, pitch: 1, emphasis: 0 };
+
+const ones = [
+  "zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten",
+  "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen", "seventeen", "eighteen", "nineteen",
+];
+const tens = ["", "", "twenty", "thirty", "forty", "fifty", "sixty", "seventy", "eighty", "ninety"];
+const scales = [
+  { value: 1_000_000_000, word: "billion" },
+  { value: 1_000_000, word: "million" },
+  { value: 1000, word: "thousand" },
+];
+const months = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+const irregularOrdinals: Record<string, string> = {
+  one: "first",
+  two: "second",
+  three: "third",
+  five: "fifth",
+  eight: "eighth",
+  nine: "ninth",
+  twelve: "twelfth",
+};
+
+const rateKeywords: Record<string, number> = { "x-slow": 0.5, slow: 0.75, medium: 1, default: 1, fast: 1.25, "x-fast": 1.6 };
+const pitchKeywords: Record<string, number> = { "x-low": 0.6, low: 0.8, medium: 1, default: 1, high: 1.2, "x-high": 1.4 };
+const breakStrengths: Record<string, number> = {
+  none: 0,
+  "x-weak": 100,
+  weak: 250,
+  medium: 400,
+  strong: 700,
+  "x-strong": 1000,
+};
+
+// Attribute values come from the script, so only the tables' own keys count ("constructor" is not a rate).
+const keywordValue = (table: Record<string, number>, value: string) =>
+  Object.hasOwn(table, value) ? table[value] : undefined;
+
+// Speech synthesis has no emphasis control, so emphasis is approximated with a slower,
+// higher delivery; `emphasis` is what the animation uses for bigger brow and head motion.
+export const emphasisProsody: Record<string, TokenProsody> = {
+  strong: { rate: 0.85, pitch: 1.2, emphasis: 1 },
+  moderate: { rate: 0.92, pitch: 1.1, emphasis: 0.6 },
+  reduced: { rate: 1.05, pitch: 0.95, emphasis: 0 },
+};
+
+function belowThousand(value: number) {
+  const words: string[] = [];
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  if (hundreds > 0) words.push(ones[hundreds], "hundred");
+  if (rest >= 20) {
+    words.push(rest % 10 ? `${tens[Math.floor(rest / 10)]}-${ones[rest % 10]}` : tens[Math.floor(rest / 10)]);
+  } else if (rest > 0 || hundreds === 0) {
+    words.push(ones[rest]);
+  }
+  return words.join(" ");
+}
+
+const spellDigits = (digits: string) => Array.from(digits, (digit) => ones[Number(digit)]).join(" ");
+
+function integerWords(digits: string) {
+  const whole = digits.replace(/^0+(?=\d)/, "");
+  if (whole.length > 12) return spellDigits(whole);
+
+  const words: string[] = [];
+  let remaining = Number(whole);
+  scales.forEach((scale) => {
+    if (remaining >= scale.value) {
+      words.push(belowThousand(Math.floor(remaining / scale.value)), scale.word);
+      remaining %= scale.value;
+    }
+  });
+  if (remaining > 0 || words.length === 0) words.push(belowThousand(remaining));
+  return words.join(" ");
+}
+
+// Works on the numeral as written ("-12.05", "123456789012345678901234") so no digit goes through a
+// float; anything else, exponent forms like "1e21" included, comes back unchanged.
+export function numberToWords(value: number | string): string {
+  const text = String(value);
+  const match = /^(-?)(\d+)(?:\.(\d+))?$/.exec(text);
+  if (!match) return text;
+  const [, sign, whole, fraction] = match;
+  const words = [integerWords(whole)];
+  if (sign) words.unshift("minus");
+  if (fraction !== undefined) words.push("point", spellDigits(fraction));
+  return words.join(" ");
+}
+
+export function ordinalWords(value: number | string) {
+  const words = numberToWords(value);
+  return words.replace(/([a-z]+)$/, (last) => {
+    if (irregularOrdinals[last]) return irregularOrdinals[last];
+    if (last.endsWith("y")) return `${last.slice(0, -1)}ieth`;
+    return `${last}th`;
+  });
+}
+
+function yearWords(year: number) {
+  if (year >= 2000 && year < 2010) return numberToWords(year);
+  if (year < 1000 || year >= 10000) return numberToWords(year);
+  const high = Math.floor(year / 100);
+  const low = year % 100;
+  if (low === 0) return `${numberToWords(high)} hundred`;
+  return `${numberToWords(high)} ${low < 10 ? `oh ${ones[low]}` : numberToWords(low)}`;
+}
+
+// Reads "2024-03-05", "3/5/2024" or "05.03.2024"; `format` is the SSML date format ("mdy", "dmy",
+// "ymd", ...). Without one, four leading digits mean ymd and anything else mdy.
+export function dateWords(text: string, format?: string) {
+  const parts = text.trim().split(/[-/.\s]+/).filter(Boolean);
+  if (parts.length === 0 || parts.some((part) => !/^\d+$/.test(part))) return text;
+  const order = (format ?? (parts[0].length === 4 ? "ymd" : "mdy")).toLowerCase();
+  const field = (letter: string) => {
+    const index = order.indexOf(letter);
+    return index >= 0 && index < parts.length ? Number(parts[index]) : null;
+  };
+  const year = field("y");
+  const month = field("m");
+  const day = field("d");
+
+  const words: string[] = [];
+  if (month !== null && month >= 1 && month <= 12) words.push(months[month - 1]);
+  if (day !== null) words.push(ordinalWords(day));
+  const spoken = words.join(" ");
+  if (year === null) return spoken || text;
+  return spoken ? `${spoken}, ${yearWords(year)}` : yearWords(year);
+}
+
+// The patterns take a trailing exponent along with the numeral so "1e21" is left as written
+// instead of being read as "one", "e", "twenty-one".
+const spellNumerals = (text: string, pattern: RegExp, spell: (numeral: string) => string) =>
+  text.replace(pattern, (match) => (/e/i.test(match) ? match : spell(match.replace(/,/g, ""))));
+
+export function sayAs(text: string, interpretAs: string, format?: string) {
+  switch (interpretAs.toLowerCase()) {
+    case "cardinal":
+    case "number":
+      return spellNumerals(text, /-?\d[\d,]*(?:\.\d+)?(?:e[+-]?\d+)?/gi, numberToWords);
+    case "ordinal":
+      return spellNumerals(text, /\d[\d,]*(?:e[+-]?\d+)?/gi, ordinalWords);
+    case "digits":
+    case "telephone":
+      return text.replace(/\d/g, (digit) => ` ${ones[Number(digit)]} `).replace(/\s+/g, " ").trim();
+    case "characters":
+    case "spell-out":
+      return Array.from(text.replace(/\s+/g, "")).join(" ");
+    case "date":
+      return dateWords(text, format);
+    default:
+      return text;
+  }
+}
+
+// Accepts SSML keywords, percentages ("80%", "+10%") and bare multipliers ("1.2").
+export function parseRate(value: string | undefined) {
+  if (!value) return 1;
+  const keyword = keywordValue(rateKeywords, value.toLowerCase());
+  if (keyword !== undefined) return keyword;
+  return parseRelative(value, false);
+}
+
+// Pitch also takes semitone offsets ("+2st", "-3st").
+export function parsePitch(value: string | undefined) {
+  if (!value) return 1;
+  const keyword = keywordValue(pitchKeywords, value.toLowerCase());
+  if (keyword !== undefined) return keyword;
+  return parseRelative(value, true);
+}
+
+function parseRelative(value: string, allowSemitones: boolean) {
+  const match = value.trim().match(/^([+-])?(\d+(?:\.\d+)?)(%|st)?$/i);
+  if (!match) return 1;
+  const [, sign, amount, unit] = match;
+  const number = parseFloat(amount);
+  let result: number;
+  if (unit === "%") {
+    result = sign ? 1 + (sign === "-" ? -number : number) / 100 : number / 100;
+  } else if (unit?.toLowerCase() === "st" && allowSemitones) {
+    result = Math.pow(2, (sign === "-" ? -number : number) / 12);
+  } else if (sign) {
+    result = 1 + (sign === "-" ? -number : number);
+  } else {
+    result = number;
+  }
+  return Math.max(0.25, Math.min(4, result));
+}
+
+export function breakDuration(attributes: Record<string, string>) {
+  const time = attributes.time?.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s)$/i);
+  if (time) return parseFloat(time[1]) * (time[2].toLowerCase() === "s" ? 1000 : 1);
+  return keywordValue(breakStrengths, attributes.strength?.toLowerCase() ?? "medium") ?? breakStrengths.medium;
+}
+
+export function readAttributes(source: string) {
+  const attributes: Record<string, string> = {};
+  for (const match of Array.from(source.matchAll(/([a-z][\w-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/gi))) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? "";
+  }
+  return attributes;
+}
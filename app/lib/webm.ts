@@ -0,0 +1,203 @@
+export type MuxChunk = {
+  data: Uint8Array;
+  timestamp: number;
+  key: boolean;
+  // Encoded alpha plane for this frame, stored as a BlockAddition next to the colour data.
+  alpha?: Uint8Array;
+};
+
+export type WebMVideoTrack = {
+  codec: "V_VP8" | "V_VP9";
+  width: number;
+  height: number;
+  // Marks the track as carrying alpha in BlockAdditions (what Chromium and ffmpeg read back).
+  alpha?: boolean;
+  chunks: MuxChunk[];
+};
+
+export type WebMAudioTrack = {
+  codec: "A_OPUS";
+  sampleRate: number;
+  channels: number;
+  codecPrivate: Uint8Array;
+  chunks: MuxChunk[];
+};
+
+const encoder = new TextEncoder();
+
+function concat(parts: Uint8Array[]) {
+  const length = parts.reduce((acc, part) => acc + part.length, 0);
+  const output = new Uint8Array(length);
+  let offset = 0;
+  parts.forEach((part) => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+}
+
+function idBytes(id: number) {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value & 0xff);
+  }
+  return new Uint8Array(bytes);
+}
+
+// Sizes are always written as 8-byte vints; it wastes a few bytes but keeps the writer trivial.
+function sizeBytes(size: number) {
+  const bytes = new Uint8Array(8);
+  bytes[0] = 0x01;
+  let value = size;
+  for (let i = 7; i > 0; i--) {
+    bytes[i] = value & 0xff;
+    value = Math.floor(value / 256);
+  }
+  return bytes;
+}
+
+function element(id: number, payload: Uint8Array) {
+  return concat([idBytes(id), sizeBytes(payload.length), payload]);
+}
+
+function master(id: number, children: Uint8Array[]) {
+  return element(id, concat(children));
+}
+
+function uint(id: number, value: number) {
+  const bytes: number[] = [];
+  let remaining = value;
+  do {
+    bytes.unshift(remaining & 0xff);
+    remaining = Math.floor(remaining / 256);
+  } while (remaining > 0);
+  return element(id, new Uint8Array(bytes));
+}
+
+function sint(id: number, value: number) {
+  const payload = new Uint8Array(2);
+  new DataView(payload.buffer).setInt16(0, value);
+  return element(id, payload);
+}
+
+function float(id: number, value: number) {
+  const payload = new Uint8Array(8);
+  new DataView(payload.buffer).setFloat64(0, value);
+  return element(id, payload);
+}
+
+function string(id: number, value: string) {
+  return element(id, encoder.encode(value));
+}
+
+function simpleBlock(trackNumber: number, relativeTime: number, chunk: MuxChunk) {
+  const header = new Uint8Array(4);
+  header[0] = 0x80 | trackNumber;
+  new DataView(header.buffer).setInt16(1, relativeTime);
+  header[3] = chunk.key ? 0x80 : 0x00;
+  return element(0xa3, concat([header, chunk.data]));
+}
+
+// SimpleBlock cannot carry additions, so frames with an alpha plane go in a BlockGroup; the
+// keyframe flag is implied by the absence of a ReferenceBlock.
+function blockGroup(trackNumber: number, relativeTime: number, chunk: MuxChunk, previousTime: number) {
+  const header = new Uint8Array(4);
+  header[0] = 0x80 | trackNumber;
+  new DataView(header.buffer).setInt16(1, relativeTime);
+  const children = [element(0xa1, concat([header, chunk.data]))];
+  if (!chunk.key) children.push(sint(0xfb, previousTime - relativeTime));
+  if (chunk.alpha) {
+    children.push(master(0x75a1, [master(0xa6, [uint(0xee, 1), element(0xa5, chunk.alpha)])]));
+  }
+  return master(0xa0, children);
+}
+
+// Builds an OpusHead block for encoders that do not hand one back in their decoder config.
+export function opusHead(channels: number, sampleRate: number, preSkip = 312) {
+  const head = new Uint8Array(19);
+  head.set(encoder.encode("OpusHead"), 0);
+  const view = new DataView(head.buffer);
+  view.setUint8(8, 1);
+  view.setUint8(9, channels);
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, sampleRate, true);
+  view.setInt16(16, 0, true);
+  view.setUint8(18, 0);
+  return head;
+}
+
+// Timestamps on incoming chunks are in microseconds (WebCodecs); the file uses millisecond ticks.
+export function muxWebM(video: WebMVideoTrack, audio: WebMAudioTrack | null, duration: number): Blob {
+  const tracks = [
+    master(0xae, [
+      uint(0xd7, 1),
+      uint(0x73c5, 1),
+      uint(0x83, 1),
+      string(0x86, video.codec),
+      master(0xe0, [uint(0xb0, video.width), uint(0xba, video.height), ...(video.alpha ? [uint(0x53c0, 1)] : [])]),
+    ]),
+  ];
+  if (audio) {
+    tracks.push(
+      master(0xae, [
+        uint(0xd7, 2),
+        uint(0x73c5, 2),
+        uint(0x83, 2),
+        string(0x86, audio.codec),
+        element(0x63a2, audio.codecPrivate),
+        uint(0x56bb, 80_000_000),
+        master(0xe1, [float(0xb5, audio.sampleRate), uint(0x9f, audio.channels)]),
+      ]),
+    );
+  }
+
+  const blocks = [
+    ...video.chunks.map((chunk) => ({ track: 1, chunk })),
+    ...(audio?.chunks ?? []).map((chunk) => ({ track: 2, chunk })),
+  ].sort((a, b) => a.chunk.timestamp - b.chunk.timestamp || a.track - b.track);
+
+  const clusters: Uint8Array[] = [];
+  let clusterStart = -1;
+  let clusterBlocks: Uint8Array[] = [];
+  let previousVideoTime = 0;
+  const flush = () => {
+    if (clusterStart >= 0) clusters.push(master(0x1f43b675, [uint(0xe7, clusterStart), ...clusterBlocks]));
+    clusterBlocks = [];
+  };
+  blocks.forEach(({ track, chunk }) => {
+    const time = Math.round(chunk.timestamp / 1000);
+    const startsCluster = clusterStart < 0 || (track === 1 && chunk.key) || time - clusterStart > 30_000;
+    if (startsCluster) {
+      flush();
+      clusterStart = time;
+    }
+    if (track === 1 && video.alpha) {
+      clusterBlocks.push(blockGroup(track, time - clusterStart, chunk, previousVideoTime - clusterStart));
+      previousVideoTime = time;
+    } else {
+      clusterBlocks.push(simpleBlock(track, time - clusterStart, chunk));
+    }
+  });
+  flush();
+
+  const header = master(0x1a45dfa3, [
+    uint(0x4286, 1),
+    uint(0x42f7, 1),
+    uint(0x42f2, 4),
+    uint(0x42f3, 8),
+    string(0x4282, "webm"),
+    uint(0x4287, 4),
+    uint(0x4285, 2),
+  ]);
+  const segment = master(0x18538067, [
+    master(0x1549a966, [
+      uint(0x2ad7b1, 1_000_000),
+      string(0x4d80, "LipForge Studio"),
+      string(0x5741, "LipForge Studio"),
+      float(0x4489, duration),
+    ]),
+    master(0x1654ae6b, tracks),
+    ...clusters,
+  ]);
+  return new Blob([header, segment], { type: "video/webm" });
+}
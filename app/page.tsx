@@ -3,6 +3,7 @@
 import Image from "next/image";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import AvatarStage from "./components/AvatarStage";
+import LandmarkEditor from "./components/LandmarkEditor";
 import {
   avatarStyles,
   defaultVisualState,
@@ -10,6 +11,113 @@ import {
   type AvatarVisualState,
   type Emotion,
 } from "./lib/avatars";
+import {
+  DAMPING_RANGE,
+  STIFFNESS_RANGE,
+  createMotionLayer,
+  defaultMotionSettings,
+  motionChannelLabels,
+  motionChannels,
+  type MotionChannel,
+  type MotionLayer,
+  type MotionSettings,
+} from "./lib/motion";
+import { buildVisemeTrack, type VisemeCue } from "./lib/phonemes";
+import {
+  parseScriptCues,
+  speechChunks,
+  speechChunksFrom,
+  type ScriptCue,
+  type SpeechChunk,
+} from "./lib/scriptCues";
+import type { TokenProsody } from "./lib/ssml";
+import {
+  captionFrameAt,
+  captionTrack,
+  defaultCaptionOptions,
+  defaultCaptionStyle,
+  groupCaptions,
+  toSrt,
+  toWebVtt,
+  toWordJson,
+  wordTimings,
+  type CaptionCue,
+  type CaptionFrame,
+  type CaptionLayer,
+  type CaptionOptions,
+  type CaptionPosition,
+  type CaptionStyle,
+} from "./lib/captions";
+import { defaultLandmarks, type PortraitLandmarks } from "./lib/portrait";
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  renderAvatarFrame,
+  renderSceneFrame,
+  type StageBackground,
+  type ScenePresenter,
+  type SceneLayout,
+} from "./lib/renderer";
+import {
+  buildDialogue,
+  castSpeech,
+  defaultCastStyle,
+  dialogueFrameStates,
+  parseDialogue,
+  type Dialogue,
+  type SpeakerCast,
+} from "./lib/dialogue";
+import {
+  PROJECT_FORMAT,
+  PROJECT_VERSION,
+  blobToDataUrl,
+  createProjectId,
+  fetchAsFile,
+  parseProject,
+  projectFileName,
+  readProjectFile,
+  type Project,
+  type ProjectMedia,
+  type ProjectSettings,
+  type ProjectSummary,
+} from "./lib/project";
+import {
+  createCustomStyle,
+  isCustomStyle,
+  loadCustomStyles,
+  saveCustomStyles,
+  styleBackground,
+  styleColors,
+  type StyleColor,
+} from "./lib/customAvatars";
+import { deleteProjectRecord, listRecentProjects, loadProjectRecord, saveProjectRecord } from "./lib/projectStore";
+import { analyzeSamples, decodeAudioFile, mixToMono, sampleAudioTrack, type AudioTrack } from "./lib/audioAnalysis";
+import { describeProsody, moodAt, proposeMoods, type Mood, type MoodPhrase } from "./lib/audioMood";
+import {
+  emptySentimentOverrides,
+  tagSentences,
+  type SentenceTag,
+  type SentimentOverrides,
+} from "./lib/sentiment";
+import {
+  audioFrameState,
+  buildTextTrack,
+  createBlinkSchedule,
+  textFrameState,
+  type BlinkSchedule,
+  type MouthDrive,
+} from "./lib/animation";
+import {
+  defaultExportSettings,
+  exportFormats,
+  exportPresets,
+  renderExport,
+  type ExportFormat,
+  type ExportSettings,
+} from "./lib/exportFormats";
+import { blendWithIdle, createIdleBehavior, type IdleBehavior } from "./lib/idle";
+import { batchManifest, createBatchJobs, parseBatch, type BatchJob, type BatchRow } from "./lib/batch";
+import { createZip, type ZipEntry } from "./lib/zip";
 import clsx from "clsx";
 
 const defaultScript = "Hello! I am your virtual presenter. Give me any script or voice input and I will bring it to life with expressive animation.";
@@ -22,7 +130,7 @@ const emotions: { id: Emotion; label: string; tone: string }[] = [
   { id: "surprised", label: "Surprised", tone: "Bright and wide-eyed" },
 ];
 
-type TimelineMode = "text" | "audio";
+type TimelineMode = "text" | "audio" | "mic";
 
 type TimelineState = {
   mode: TimelineMode;
@@ -30,7 +138,34 @@ type TimelineState = {
   duration: number;
   tokens: string[];
   segments: number[];
+  visemes: VisemeCue[];
+  offsets: number[];
+  cues: ScriptCue[];
+  holds: number[];
+  prosody: TokenProsody[];
+  speech: SpeechChunk[];
+  lastBoundary: { index: number; time: number } | null;
+  audioTrack: AudioTrack | null;
   emotion: Emotion;
+  // Speaker labels for dialogue scenes; null for a single presenter.
+  dialogue: Dialogue | null;
+  // Timeline position (ms) while the transport is paused; null while playing.
+  pausedAt: number | null;
+};
+
+type SceneFrame = {
+  active: number;
+  states: AvatarVisualState[];
+};
+
+type MicSettings = {
+  gate: number;
+  sensitivity: number;
+};
+
+type ExportRequest = {
+  extraTracks: MediaStreamTrack[];
+  includeGraphAudio: boolean;
 };
 
 const round = (value: number, decimals: number) => {
@@ -38,6 +173,133 @@ const round = (value: number, decimals: number) => {
   return Math.round(value * factor) / factor;
 };
 
+const sum = (values: number[], from = 0, to = values.length) => {
+  let total = 0;
+  for (let i = from; i < to; i++) total += values[i];
+  return total;
+};
+
+// Re-anchors a text timeline so `tokenIndex` starts at `now`, and rescales the tokens still
+// ahead by how fast the voice covered the span since the previous boundary.
+const resyncTimeline = (timeline: TimelineState, tokenIndex: number, now: number): TimelineState => {
+  const segments = [...timeline.segments];
+  const anchor = timeline.lastBoundary;
+  if (anchor && tokenIndex > anchor.index) {
+    const expectedSpan = sum(segments, anchor.index, tokenIndex);
+    const observedSpan = now - anchor.time;
+    if (expectedSpan > 0 && observedSpan > 0) {
+      const ratio = Math.max(0.5, Math.min(2, observedSpan / expectedSpan));
+      const correction = 1 + (ratio - 1) * 0.7;
+      // Pause holds are real gaps between utterances, so only the spoken part is rescaled.
+      for (let i = tokenIndex; i < segments.length; i++) {
+        const hold = timeline.holds[i] ?? 0;
+        segments[i] = (segments[i] - hold) * correction + hold;
+      }
+    }
+  }
+  return {
+    ...timeline,
+    startTime: now - sum(segments, 0, tokenIndex),
+    duration: sum(segments),
+    segments,
+    visemes: buildVisemeTrack(timeline.tokens, segments, timeline.holds),
+    lastBoundary: { index: tokenIndex, time: now },
+  };
+};
+
+const mediaTimeline = (
+  mode: "audio" | "mic",
+  duration: number,
+  audioTrack: AudioTrack | null,
+  emotion: Emotion,
+): TimelineState => ({
+  mode,
+  startTime: performance.now(),
+  duration,
+  tokens: [],
+  segments: [],
+  visemes: [],
+  offsets: [],
+  cues: [],
+  holds: [],
+  prosody: [],
+  speech: [],
+  lastBoundary: null,
+  audioTrack,
+  emotion,
+  dialogue: null,
+  pausedAt: null,
+});
+
+// Index of the token being spoken `time` ms into a text timeline.
+const tokenAt = (segments: number[], time: number) => {
+  let accumulated = 0;
+  for (let i = 0; i < segments.length; i++) {
+    accumulated += segments[i];
+    if (time < accumulated) return i;
+  }
+  return Math.max(0, segments.length - 1);
+};
+
+const describeCue = (cue: ScriptCue) => {
+  if (cue.kind === "emotion") return cue.intensity < 1 ? `${cue.emotion} ${Math.round(cue.intensity * 100)}%` : cue.emotion;
+  if (cue.kind === "pause") return `pause ${Math.round(cue.duration)}ms`;
+  return cue.gesture;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const downloadUrl = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = downloadUrl;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(downloadUrl);
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = document.createElement("img");
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Portrait failed to load"));
+    image.src = src;
+  });
+
+// Resolves once the frame at `time` is decoded, so an offline render can draw it. Short clips
+// loop under longer scripts, as they do on the live stage.
+const seekVideo = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve) => {
+    const target = video.duration > 0 ? (time / 1000) % video.duration : 0;
+    if (Math.abs(video.currentTime - target) < 0.001) {
+      resolve();
+      return;
+    }
+    video.addEventListener("seeked", () => resolve(), { once: true });
+    video.currentTime = target;
+  });
+
+const motionLayerAt = (layers: MotionLayer[], index: number) => {
+  if (!layers[index]) layers[index] = createMotionLayer();
+  return layers[index];
+};
+
+const backgroundVideoOf = (background: StageBackground) =>
+  background.kind === "media" && background.source instanceof HTMLVideoElement ? background.source : null;
+
+type BackgroundMedia = {
+  url: string;
+  name: string;
+  element: HTMLImageElement | HTMLVideoElement;
+};
+
+const backgroundKinds: { kind: StageBackground["kind"]; label: string }[] = [
+  { kind: "studio", label: "Studio" },
+  { kind: "solid", label: "Solid" },
+  { kind: "media", label: "Image / Video" },
+  { kind: "chroma", label: "Green Screen" },
+  { kind: "transparent", label: "Transparent" },
+];
+
 export default function Home() {
   const [mode, setMode] = useState<TimelineMode>("text");
   const [script, setScript] = useState(defaultScript);
@@ -52,26 +314,171 @@ export default function Home() {
   const [voiceName, setVoiceName] = useState<string | null>(null);
   const [speechRate, setSpeechRate] = useState(1.0);
   const [speechPitch, setSpeechPitch] = useState(1.0);
+  const [autoGestures, setAutoGestures] = useState(true);
+  const [autoSentiment, setAutoSentiment] = useState(true);
+  // The user's edits to sentence tags, keyed by sentence so they survive edits elsewhere in the script.
+  const [sentimentOverrides, setSentimentOverrides] = useState<SentimentOverrides>(emptySentimentOverrides);
   const [audioFileName, setAudioFileName] = useState<string | null>(null);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [audioTrack, setAudioTrack] = useState<AudioTrack | null>(null);
+  // Per-phrase emotion read from the uploaded clip's prosody; drives the avatar while autoMood is on.
+  const [moodPhrases, setMoodPhrases] = useState<MoodPhrase[]>([]);
+  const [autoMood, setAutoMood] = useState(true);
+  const [micGate, setMicGate] = useState(0.08);
+  const [micSensitivity, setMicSensitivity] = useState(1.4);
+  const [motionSettings, setMotionSettings] = useState<MotionSettings>(defaultMotionSettings);
+  const [isExporting, setIsExporting] = useState(false);
+  const [captureSpeechAudio, setCaptureSpeechAudio] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("webm");
+  const [exportSettings, setExportSettings] = useState<Record<ExportFormat, ExportSettings>>(defaultExportSettings);
+  const [renderSeed, setRenderSeed] = useState(1);
+  const [isRendering, setIsRendering] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [timelineDuration, setTimelineDuration] = useState(0);
+  const [portraitName, setPortraitName] = useState<string | null>(null);
+  const [portraitLandmarks, setPortraitLandmarks] = useState<PortraitLandmarks | null>(null);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [captionOptions, setCaptionOptions] = useState<CaptionOptions>(defaultCaptionOptions);
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>(defaultCaptionStyle);
+  const [captionFrame, setCaptionFrame] = useState<CaptionFrame | null>(null);
+  const [speakerCast, setSpeakerCast] = useState<Record<string, SpeakerCast>>({});
+  const [sceneLayout, setSceneLayout] = useState<SceneLayout>("side");
+  const [sceneFrame, setSceneFrame] = useState<SceneFrame | null>(null);
+  const [backgroundKind, setBackgroundKind] = useState<StageBackground["kind"]>("studio");
+  const [backgroundColor, setBackgroundColor] = useState("#0f172a");
+  const [backgroundMedia, setBackgroundMedia] = useState<BackgroundMedia | null>(null);
+  const [batchText, setBatchText] = useState("");
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+  const [batchErrors, setBatchErrors] = useState<string[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [projectId, setProjectId] = useState<string>(createProjectId);
+  const [projectName, setProjectName] = useState("Untitled project");
+  const [projectCreatedAt, setProjectCreatedAt] = useState(() => new Date().toISOString());
+  const [embedMedia, setEmbedMedia] = useState(true);
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
+  const [customStyles, setCustomStyles] = useState<AvatarStyle[]>([]);
+  const [styleDraft, setStyleDraft] = useState<AvatarStyle | null>(null);
+  const [styleError, setStyleError] = useState<string | null>(null);
 
   const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+  const speechPauseRef = useRef<number>();
   const animationFrameRef = useRef<number>();
   const timelineRef = useRef<TimelineState | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const audioSourceRef = useRef<MediaElementAudioSourceNode | null>(null);
+  const micStreamRef = useRef<MediaStream | null>(null);
+  const micSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const micSettingsRef = useRef<MicSettings>({ gate: 0.08, sensitivity: 1.4 });
+  const micLevelRef = useRef(0);
+  const motionSettingsRef = useRef<MotionSettings>(defaultMotionSettings());
+  const moodsRef = useRef<MoodPhrase[] | null>(null);
+  // One spring layer per presenter on stage; index 0 is also the solo presenter.
+  const motionLayersRef = useRef<MotionLayer[]>([]);
+  const captionOptionsRef = useRef<CaptionOptions>(defaultCaptionOptions);
+  const captionCacheRef = useRef<{ segments: number[]; options: CaptionOptions; cues: CaptionCue[] } | null>(null);
   const audioElementRef = useRef<HTMLAudioElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const recorderRef = useRef<MediaRecorder | null>(null);
   const recordingChunksRef = useRef<Blob[]>([]);
-  const lastBlinkRef = useRef<number>(performance.now());
-  const blinkIntervalRef = useRef<number>(4000);
-  const lastEmotionPulseRef = useRef<number>(performance.now());
+  const exportRequestRef = useRef<ExportRequest | null>(null);
+  const exportDestinationRef = useRef<MediaStreamAudioDestinationNode | null>(null);
+  const blinkRef = useRef<BlinkSchedule>(createBlinkSchedule(1));
+  const speakerBlinksRef = useRef<BlinkSchedule[]>([]);
+  const idleRef = useRef<IdleBehavior>(createIdleBehavior(1));
+  // Idle time runs on its own clock; a timeline picks it up where the idle loop left it and hands
+  // it back at its last frame, so breathing and glances carry on across previews.
+  const idleTimeRef = useRef(0);
+  const idleBaseRef = useRef(0);
+  const pendingAnalysisRef = useRef<string | null>(null);
+  // The batch loop picks its next job from here, so retries queued mid-run are picked up too.
+  const batchJobsRef = useRef<BatchJob[]>([]);
+  const batchStopRef = useRef(false);
+
+  const dialogue = useMemo(() => {
+    const lines = parseDialogue(script);
+    return lines ? buildDialogue(lines) : null;
+  }, [script]);
+  const parsedScript = useMemo(() => parseScriptCues(dialogue?.script ?? script), [dialogue, script]);
+  const scriptCues = parsedScript.cues;
+  const sentenceTags = useMemo<SentenceTag[]>(
+    () =>
+      autoSentiment
+        ? tagSentences(parsedScript.text.match(/\S+/g) ?? [], parsedScript.cues, sentimentOverrides)
+        : [],
+    [autoSentiment, parsedScript, sentimentOverrides],
+  );
+  // Sentence tagging for a text track whose neutral sentences fall back to `base`.
+  const sentimentFor = useCallback(
+    (base: Emotion) => (autoSentiment ? { baseEmotion: base, overrides: sentimentOverrides } : null),
+    [autoSentiment, sentimentOverrides],
+  );
+  const transportEnabled = mode !== "mic" && !isExporting && !isRendering && (mode === "text" || !!audioTrack || isPreviewing);
+
+  const captionLayer = useMemo<CaptionLayer | null>(
+    () => (captionStyle.enabled && captionFrame && !isCalibrating ? { frame: captionFrame, style: captionStyle } : null),
+    [captionFrame, captionStyle, isCalibrating],
+  );
+
+  const deckStyles = useMemo(() => [...avatarStyles, ...customStyles], [customStyles]);
 
   const avatarStyle = useMemo<AvatarStyle>(() => {
-    return avatarStyles.find((avatar) => avatar.id === selectedAvatarId) ?? avatarStyles[0];
-  }, [selectedAvatarId]);
+    return deckStyles.find((avatar) => avatar.id === selectedAvatarId) ?? avatarStyles[0];
+  }, [deckStyles, selectedAvatarId]);
+
+  // Uncast speakers default to the selected avatar and voice for the first speaker and the next
+  // ones along the deck and voice list for the rest.
+  const resolvedCast = useMemo(() => {
+    const cast: Record<string, SpeakerCast> = {};
+    dialogue?.speakers.forEach((speaker, index) => {
+      cast[speaker] = speakerCast[speaker] ?? {
+        avatarId: defaultCastStyle(deckStyles, avatarStyle, index).id,
+        voiceName:
+          index === 0 || availableVoices.length === 0
+            ? voiceName
+            : availableVoices[(availableVoices.findIndex((voice) => voice.name === voiceName) + index) % availableVoices.length].name,
+      };
+    });
+    return cast;
+  }, [availableVoices, avatarStyle, deckStyles, dialogue, speakerCast, voiceName]);
+
+  const castStyles = useMemo(
+    () =>
+      dialogue?.speakers.map(
+        (speaker) => deckStyles.find((avatar) => avatar.id === resolvedCast[speaker]?.avatarId) ?? avatarStyles[0],
+      ) ?? [],
+    [deckStyles, dialogue, resolvedCast],
+  );
+
+  // Between previews the cast stands at rest so the layout can be checked before playing.
+  const stageScene = useMemo(() => {
+    if (!dialogue || mode !== "text" || isCalibrating) return null;
+    const states = sceneFrame?.states ?? dialogue.speakers.map(() => avatarState);
+    return {
+      presenters: states.map((state, index) => ({ state, style: castStyles[index] ?? avatarStyle })),
+      active: sceneFrame?.active ?? 0,
+      layout: sceneLayout,
+    };
+  }, [avatarState, avatarStyle, castStyles, dialogue, isCalibrating, mode, sceneFrame, sceneLayout]);
+
+  const stageBackground = useMemo<StageBackground>(() => {
+    switch (backgroundKind) {
+      case "solid":
+        return { kind: "solid", color: backgroundColor };
+      case "media": {
+        if (!backgroundMedia) return { kind: "studio" };
+        const { element } = backgroundMedia;
+        return element instanceof HTMLVideoElement
+          ? { kind: "media", source: element, width: element.videoWidth, height: element.videoHeight }
+          : { kind: "media", source: element, width: element.naturalWidth, height: element.naturalHeight };
+      }
+      case "chroma":
+      case "transparent":
+        return { kind: backgroundKind };
+      default:
+        return { kind: "studio" };
+    }
+  }, [backgroundColor, backgroundKind, backgroundMedia]);
 
   const ensureAudioContext = useCallback(() => {
     if (typeof window === "undefined") return null;
@@ -81,6 +488,14 @@ export default function Home() {
     return audioContextRef.current;
   }, []);
 
+  // Everything audible in the audio graph is also routed here so exports can record it.
+  const ensureExportDestination = useCallback((ctx: AudioContext) => {
+    if (!exportDestinationRef.current) {
+      exportDestinationRef.current = ctx.createMediaStreamDestination();
+    }
+    return exportDestinationRef.current;
+  }, []);
+
   const resetAnimationFrame = useCallback(() => {
     if (animationFrameRef.current !== undefined) {
       cancelAnimationFrame(animationFrameRef.current);
@@ -90,6 +505,10 @@ export default function Home() {
 
   const stopSpeech = useCallback(() => {
     if (typeof window === "undefined") return;
+    if (speechPauseRef.current !== undefined) {
+      window.clearTimeout(speechPauseRef.current);
+      speechPauseRef.current = undefined;
+    }
     if (utteranceRef.current) {
       window.speechSynthesis.cancel();
       utteranceRef.current = null;
@@ -102,23 +521,42 @@ export default function Home() {
       audio.pause();
       audio.currentTime = 0;
     }
-    if (audioSourceRef.current) {
-      audioSourceRef.current.disconnect();
-      audioSourceRef.current = null;
+    // A media element can only be wrapped once, so the source node is kept and just unplugged.
+    audioSourceRef.current?.disconnect();
+    if (micSourceRef.current) {
+      micSourceRef.current.disconnect();
+      micSourceRef.current = null;
+    }
+    if (micStreamRef.current) {
+      micStreamRef.current.getTracks().forEach((track) => track.stop());
+      micStreamRef.current = null;
     }
+    micLevelRef.current = 0;
     if (analyserRef.current) {
       analyserRef.current.disconnect();
       analyserRef.current = null;
     }
   }, []);
 
+  const cancelExport = useCallback(() => {
+    exportRequestRef.current?.extraTracks.forEach((track) => track.stop());
+    exportRequestRef.current = null;
+    setIsExporting(false);
+  }, []);
+
   const stopAllPlayback = useCallback(() => {
+    if (recorderRef.current && recorderRef.current.state === "recording") {
+      recorderRef.current.stop();
+    }
     resetAnimationFrame();
     stopSpeech();
     stopAudioPlayback();
     timelineRef.current = null;
     setIsPreviewing(false);
+    setIsPaused(false);
     setProgress(0);
+    setCaptionFrame(null);
+    setSceneFrame(null);
     setAvatarState((prev) => ({
       ...prev,
       mouthOpenness: 0,
@@ -134,190 +572,281 @@ export default function Home() {
     }));
   }, [resetAnimationFrame, stopAudioPlayback, stopSpeech]);
 
-  const updateAnimation = useCallback(() => {
-    const timeline = timelineRef.current;
-    if (!timeline) return;
+  const startRecordingIfRequested = useCallback(() => {
+    const request = exportRequestRef.current;
+    const canvas = canvasRef.current;
+    if (!request || !canvas) return;
+    exportRequestRef.current = null;
 
-    const now = performance.now();
-    const elapsed = now - timeline.startTime;
-    const duration = timeline.duration;
-    const clampedElapsed = Math.min(elapsed, duration);
-    const ratio = duration === 0 ? 0 : clampedElapsed / duration;
-    const easedProgress = Math.pow(ratio, 0.9);
-    const baseEmotion = timeline.emotion;
-
-    const blinkNow = now - lastBlinkRef.current;
-    if (blinkNow > blinkIntervalRef.current) {
-      lastBlinkRef.current = now;
-      blinkIntervalRef.current = 2500 + Math.random() * 3200;
-    }
-    const blinkPhase = Math.max(0, 1 - Math.abs((blinkNow % 180) - 90) / 90);
-
-    let activeIndex = timeline.tokens.length - 1;
-    let accumulated = 0;
-    for (let i = 0; i < timeline.segments.length; i++) {
-      accumulated += timeline.segments[i];
-      if (clampedElapsed <= accumulated) {
-        activeIndex = i;
-        break;
+    const audioTracks = [...request.extraTracks];
+    if (request.includeGraphAudio && exportDestinationRef.current) {
+      audioTracks.push(...exportDestinationRef.current.stream.getAudioTracks());
+    }
+    const stream = new MediaStream([...canvas.captureStream(60).getVideoTracks(), ...audioTracks]);
+    const candidates = audioTracks.length
+      ? ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm"]
+      : ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+    const mimeType = candidates.find((type) => MediaRecorder.isTypeSupported(type)) ?? "video/webm";
+
+    const recorder = new MediaRecorder(stream, { mimeType });
+    recorderRef.current = recorder;
+    recordingChunksRef.current = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data && event.data.size > 0) {
+        recordingChunksRef.current.push(event.data);
       }
+    };
+    recorder.onstop = () => {
+      request.extraTracks.forEach((track) => track.stop());
+      downloadBlob(new Blob(recordingChunksRef.current, { type: mimeType }), `lipforge-preview-${Date.now()}.webm`);
+      recorderRef.current = null;
+      setIsExporting(false);
+      setStatus("Export generated");
+    };
+    recorder.start();
+  }, []);
+
+  // Cues are regrouped only when boundary resyncs replace the segments or the options change.
+  const captionAt = useCallback((timeline: TimelineState, time: number) => {
+    if (timeline.mode !== "text") return null;
+    const options = captionOptionsRef.current;
+    let cache = captionCacheRef.current;
+    if (!cache || cache.segments !== timeline.segments || cache.options !== options) {
+      const words = wordTimings(timeline.tokens, timeline.segments, timeline.holds);
+      cache = { segments: timeline.segments, options, cues: groupCaptions(words, options) };
+      captionCacheRef.current = cache;
     }
+    return captionFrameAt(cache.cues, time);
+  }, []);
 
-    const token = timeline.tokens[activeIndex] ?? "";
-    const phoneticEnergy = Math.min(1, token.replace(/[^a-z]/gi, "").length / 6 + 0.2);
-    const localElapsed = clampedElapsed - (accumulated - timeline.segments[activeIndex]);
-    const localDuration = timeline.segments[activeIndex] || 1;
-    const localRatio = Math.max(0, Math.min(1, localElapsed / localDuration));
-    const localEnvelope = Math.sin(localRatio * Math.PI);
+  // Live drivers hand their raw targets to the springs; seeks snap so the held frame is exact.
+  const smoothed = useCallback(
+    (index: number, state: AvatarVisualState) =>
+      motionLayerAt(motionLayersRef.current, index).step(state, performance.now(), motionSettingsRef.current),
+    [],
+  );
 
-    const audioLevel = Math.max(0.05, localEnvelope * phoneticEnergy);
+  const snapped = useCallback(
+    (index: number, state: AvatarVisualState) => motionLayerAt(motionLayersRef.current, index).snap(state),
+    [],
+  );
 
-    const nowSinceEmotionPulse = now - lastEmotionPulseRef.current;
-    if (nowSinceEmotionPulse > 6000) {
-      lastEmotionPulseRef.current = now;
-    }
-    const emotionPulse = Math.sin(((now - lastEmotionPulseRef.current) / 6000) * Math.PI * 2) * 0.15 + 0.85;
-    const emotionIntensity = Math.min(1, 0.3 + emotionPulse * (0.5 + phoneticEnergy * 0.5));
+  const withIdle = useCallback((timeline: TimelineState, time: number, state: AvatarVisualState) => {
+    idleTimeRef.current = idleBaseRef.current + time;
+    return blendWithIdle(state, idleRef.current(idleTimeRef.current, timeline.emotion), time, timeline.duration);
+  }, []);
 
-    setAvatarState((prev) => ({
-      ...prev,
-      emotion: baseEmotion,
-      emotionIntensity,
-      mouthOpenness: audioLevel,
-      mouthRoundness: 0.35 - phoneticEnergy * 0.12 + (baseEmotion === "surprised" ? 0.25 : 0),
-      mouthWidth: 0.55 + phoneticEnergy * 0.3,
-      headTilt: Math.sin(ratio * Math.PI * 2 + phoneticEnergy) * 6 +
-        (baseEmotion === "happy" ? 3 : baseEmotion === "sad" ? -4 : 0),
-      headTurn: Math.sin(now / 1200) * 4 + Math.cos(ratio * Math.PI * 4) * 3,
-      browLift: 0.2 + localEnvelope * 0.5 + (baseEmotion === "angry" ? -0.2 : 0),
-      eyeOffsetX: Math.sin(now / 800) * 0.7 + Math.sin(ratio * Math.PI * 6) * 0.2,
-      eyeOffsetY: Math.cos(now / 1000) * 0.3 + (baseEmotion === "sad" ? 0.2 : 0),
-      blink: Math.pow(Math.min(1, blinkPhase), 2),
-      handCycle: Math.sin(ratio * Math.PI * 2 + phoneticEnergy * 2) * phoneticEnergy,
-      shimmer: Math.sin(now / 320) * 0.5 + 0.5,
-      timelineLabel: token ? token : "Expressing",
-      audioLevel,
-    }));
-    setProgress(round(easedProgress * 100, 1));
+  const sceneAt = useCallback(
+    (timeline: TimelineState, time: number): SceneFrame | null => {
+      if (timeline.mode !== "text" || !timeline.dialogue) return null;
+      const scene = dialogueFrameStates(timeline, timeline.dialogue, time, timeline.emotion, speakerBlinksRef.current);
+      return { active: scene.active, states: scene.states.map((state) => withIdle(timeline, time, state)) };
+    },
+    [withIdle],
+  );
+
+  const updateAnimation = useCallback(() => {
+    const timeline = timelineRef.current;
+    if (!timeline) return;
+
+    const elapsed = performance.now() - timeline.startTime;
+    const duration = timeline.duration;
+    const ratio = duration === 0 ? 0 : Math.min(elapsed, duration) / duration;
 
-    if (elapsed < duration) {
+    const raw = sceneAt(timeline, elapsed);
+    const scene = raw && { active: raw.active, states: raw.states.map((state, index) => smoothed(index, state)) };
+    setSceneFrame(scene);
+    setAvatarState(
+      scene
+        ? scene.states[scene.active]
+        : smoothed(0, withIdle(timeline, elapsed, textFrameState(timeline, elapsed, timeline.emotion, blinkRef.current))),
+    );
+    setCaptionFrame(captionAt(timeline, elapsed));
+    // Linear, so the scrubber position maps straight back to timeline time.
+    setProgress(round(ratio * 100, 1));
+
+    // Boundary-synced speech can outlast the estimate; hold the rest pose until the voice ends.
+    const stillSpeaking = typeof window !== "undefined" && window.speechSynthesis.speaking;
+    if (elapsed < duration || stillSpeaking) {
       animationFrameRef.current = requestAnimationFrame(updateAnimation);
     } else {
       stopAllPlayback();
       setStatus("Preview complete");
     }
-  }, [setAvatarState, stopAllPlayback]);
+  }, [captionAt, sceneAt, setAvatarState, smoothed, stopAllPlayback, withIdle]);
 
   const startTextTimeline = useCallback(
-    (text: string, durationMultiplier = 82) => {
-      const tokens = text
-        .replace(/\s+/g, " ")
-        .trim()
-        .split(" ")
-        .filter(Boolean);
-      if (tokens.length === 0) return;
-      const segments = tokens.map((token) => {
-        const letters = token.replace(/[^a-z]/gi, "").length || 1;
-        const punctuationBoost = /[,.!?]$/.test(token) ? 420 : 0;
-        return letters * durationMultiplier + 240 + punctuationBoost;
-      });
-      const duration = segments.reduce((acc, item) => acc + item, 0);
+    (text: string, rate: number, pitch: number, speech: SpeechChunk[], scene: Dialogue | null = null) => {
+      const track = buildTextTrack(text, rate, pitch, autoGestures, sentimentFor(emotion));
+      if (track.tokens.length === 0) return;
       timelineRef.current = {
         mode: "text",
         startTime: performance.now(),
-        duration,
-        tokens,
-        segments,
+        ...track,
+        speech,
+        lastBoundary: null,
+        audioTrack: null,
         emotion,
+        dialogue: scene,
+        pausedAt: null,
       };
+      setTimelineDuration(track.duration);
+      blinkRef.current = createBlinkSchedule(renderSeed);
+      speakerBlinksRef.current = scene?.speakers.map((_, index) => createBlinkSchedule(renderSeed + index)) ?? [];
+      startRecordingIfRequested();
       animationFrameRef.current = requestAnimationFrame(updateAnimation);
     },
-    [emotion, updateAnimation],
+    [autoGestures, emotion, renderSeed, sentimentFor, startRecordingIfRequested, updateAnimation],
+  );
+
+  // Speaks an utterance queue back to back, honouring each chunk's prosody and trailing pause.
+  // `onStart` runs when the first chunk actually starts playing.
+  const queueSpeech = useCallback(
+    (chunks: SpeechChunk[], onStart: () => void) => {
+      const voices = window.speechSynthesis.getVoices();
+      const findVoice = (name: string | null | undefined) => (name ? voices.find((v) => v.name === name) : undefined);
+      const defaultVoice = findVoice(voiceName);
+
+      const speakChunk = (index: number) => {
+        const chunk = chunks[index];
+        const utterance = new SpeechSynthesisUtterance(chunk.text);
+        utterance.rate = Math.max(0.1, Math.min(10, speechRate * chunk.rate));
+        utterance.pitch = Math.max(0, Math.min(2, speechPitch * chunk.pitch));
+        const voice = chunk.voice ? findVoice(chunk.voice) ?? defaultVoice : defaultVoice;
+        if (voice) utterance.voice = voice;
+        utterance.onstart = () => {
+          if (index === 0) onStart();
+        };
+        utterance.onboundary = (event) => {
+          const timeline = timelineRef.current;
+          if (!timeline || timeline.mode !== "text" || timeline.pausedAt !== null) return;
+          if (event.name !== "word" && event.name !== "sentence") return;
+          const charIndex = chunk.offset + event.charIndex;
+          let tokenIndex = 0;
+          while (tokenIndex + 1 < timeline.offsets.length && timeline.offsets[tokenIndex + 1] <= charIndex) {
+            tokenIndex += 1;
+          }
+          if (!timeline.lastBoundary) setStatus("Playing preview · voice-synced");
+          timelineRef.current = resyncTimeline(timeline, tokenIndex, performance.now());
+        };
+        utterance.onend = () => {
+          if (utteranceRef.current !== utterance) return;
+          const next = () => {
+            speechPauseRef.current = undefined;
+            if (index + 1 < chunks.length) {
+              speakChunk(index + 1);
+            } else {
+              stopAllPlayback();
+              setStatus("Preview complete");
+            }
+          };
+          if (chunk.pauseAfter > 0) {
+            speechPauseRef.current = window.setTimeout(next, chunk.pauseAfter);
+          } else {
+            next();
+          }
+        };
+        utterance.onerror = (event) => {
+          if (utteranceRef.current !== utterance) return;
+          console.error(event);
+          cancelExport();
+          stopAllPlayback();
+          setStatus("Speech synthesis error");
+        };
+        utteranceRef.current = utterance;
+        window.speechSynthesis.speak(utterance);
+      };
+
+      window.speechSynthesis.cancel();
+      if (chunks.length > 0) speakChunk(0);
+    },
+    [speechRate, speechPitch, voiceName, cancelExport, stopAllPlayback],
   );
 
   const speakText = useCallback(() => {
     if (typeof window === "undefined") return;
     stopAllPlayback();
     setStatus("Synthesizing voice");
-    const utterance = new SpeechSynthesisUtterance(script);
-    utterance.rate = speechRate;
-    utterance.pitch = speechPitch;
-    if (voiceName) {
-      const voice = window.speechSynthesis.getVoices().find((v) => v.name === voiceName);
-      if (voice) utterance.voice = voice;
-    }
-    utterance.onstart = () => {
+    // Pause cues and SSML prosody split the script into a queue of utterances, each with its own
+    // rate and pitch, spoken back to back. Dialogue turns also switch to each speaker's voice.
+    const spoken = dialogue?.script ?? script;
+    const parsedChunks = speechChunks(parseScriptCues(spoken));
+    const chunks = dialogue ? castSpeech(parsedChunks, dialogue, resolvedCast) : parsedChunks;
+    if (chunks.length === 0) {
+      setStatus("Write a script before previewing");
+      return;
+    }
+    queueSpeech(chunks, () => {
       setIsPreviewing(true);
       setStatus("Playing preview");
-      startTextTimeline(script, 78 - speechRate * 6 + (speechPitch > 1 ? -4 : 0));
-    };
-    utterance.onend = () => {
-      stopAllPlayback();
-      setStatus("Preview complete");
-    };
-    utterance.onerror = (event) => {
-      console.error(event);
-      stopAllPlayback();
-      setStatus("Speech synthesis error");
-    };
-    utteranceRef.current = utterance;
-    window.speechSynthesis.cancel();
-    window.speechSynthesis.speak(utterance);
-  }, [script, speechRate, speechPitch, voiceName, startTextTimeline, stopAllPlayback]);
+      startTextTimeline(spoken, speechRate, speechPitch, chunks, dialogue);
+    });
+  }, [dialogue, resolvedCast, script, speechRate, speechPitch, queueSpeech, startTextTimeline, stopAllPlayback]);
 
   const driveAudioTimeline = useCallback(() => {
-    const analyser = analyserRef.current;
-    if (!analyser) return;
-    const dataArray = new Uint8Array(analyser.fftSize);
     const timeline = timelineRef.current;
     if (!timeline) return;
 
-    const now = performance.now();
-    const elapsed = now - timeline.startTime;
+    const audio = audioElementRef.current;
+    const track = timeline.audioTrack;
+    const elapsed = track && audio ? audio.currentTime * 1000 : performance.now() - timeline.startTime;
     const duration = timeline.duration;
 
-    analyser.getByteFrequencyData(dataArray);
-    const avg = dataArray.reduce((acc, value) => acc + value, 0) / dataArray.length;
-    const level = Math.min(1, avg / 180);
-
+    let mouth: MouthDrive;
+    if (track) {
+      mouth = sampleAudioTrack(track, elapsed);
+    } else {
+      // Analysis has not finished (or failed to decode); fall back to the live analyser.
+      const analyser = analyserRef.current;
+      if (!analyser) return;
+      const dataArray = new Uint8Array(analyser.fftSize);
+      analyser.getByteFrequencyData(dataArray);
+      const avg = dataArray.reduce((acc, value) => acc + value, 0) / dataArray.length;
+      let level = Math.min(1, avg / 180);
+      if (timeline.mode === "mic") {
+        // Gate on the raw level, then apply sensitivity and a fast-attack / slow-release follower.
+        const { gate, sensitivity } = micSettingsRef.current;
+        const target = level < gate ? 0 : Math.min(1, ((level - gate) / (1 - gate)) * sensitivity);
+        const previous = micLevelRef.current;
+        level = previous + (target - previous) * (target > previous ? 0.6 : 0.25);
+        micLevelRef.current = level;
+      }
+      mouth = { level, openness: Math.min(1, 0.1 + level * 1.1), width: 0.6 + level * 0.35, roundness: 0.3 - level * 0.1 };
+      if (timeline.mode === "mic" && level < 0.02) {
+        mouth.openness = 0;
+      }
+    }
     const ratio = duration === 0 ? 0 : Math.min(1, elapsed / duration);
-    const easedProgress = Math.pow(ratio, 0.92);
+    const mood = track && moodsRef.current ? moodAt(moodsRef.current, elapsed) : null;
+    const label = timeline.mode === "mic"
+      ? mouth.level < 0.02 ? "Live mic · gated" : "Live mic"
+      : `${Math.floor(ratio * 100)}% energy`;
 
-    setAvatarState((prev) => ({
-      ...prev,
-      emotion: emotion,
-      emotionIntensity: 0.3 + level * 0.6,
-      mouthOpenness: 0.1 + level * 1.1,
-      mouthWidth: 0.6 + level * 0.35,
-      mouthRoundness: 0.3 - level * 0.1,
-      headTilt: Math.sin(now / 720) * (5 + level * 6),
-      headTurn: Math.cos(now / 960) * (4 + level * 5),
-      browLift: 0.15 + level * 0.55,
-      eyeOffsetX: Math.sin(now / 640) * (0.6 + level * 0.6),
-      eyeOffsetY: Math.sin(now / 820) * (0.4 + level * 0.4),
-      blink: Math.pow(Math.sin(now / 1200) * 0.5 + 0.5, 8),
-      handCycle: Math.sin(now / 380) * (0.4 + level * 0.7),
-      shimmer: Math.sin(now / 220) * 0.5 + 0.5,
-      timelineLabel: `${Math.floor(ratio * 100)}% energy`,
-      audioLevel: level,
-    }));
+    setAvatarState(
+      smoothed(
+        0,
+        withIdle(
+          timeline,
+          elapsed,
+          audioFrameState(mouth, elapsed, mood?.emotion ?? emotion, blinkRef.current, label, mood?.intensity),
+        ),
+      ),
+    );
 
-    setProgress(round(easedProgress * 100, 1));
+    setProgress(timeline.mode === "mic" ? 0 : round(ratio * 100, 1));
 
-    if (elapsed < duration && isPreviewing) {
+    if (timeline.mode === "mic" || (elapsed < duration && !audio?.ended)) {
       animationFrameRef.current = requestAnimationFrame(driveAudioTimeline);
     } else {
       stopAllPlayback();
       setStatus("Preview complete");
     }
-  }, [emotion, isPreviewing, setAvatarState, stopAllPlayback]);
+  }, [emotion, setAvatarState, smoothed, stopAllPlayback, withIdle]);
 
-  const playAudioFile = useCallback(async () => {
-    const audio = audioElementRef.current;
-    if (!audio || !audioUrl) return;
-    stopAllPlayback();
+  // Routes the <audio> element through the analyser to the speakers and the export destination.
+  const connectAudioGraph = useCallback(async (audio: HTMLAudioElement) => {
     const ctx = ensureAudioContext();
-    if (!ctx) return;
+    if (!ctx) return false;
 
     if (!audioSourceRef.current) {
       audioSourceRef.current = ctx.createMediaElementSource(audio);
@@ -325,87 +854,1075 @@ export default function Home() {
     if (!analyserRef.current) {
       analyserRef.current = ctx.createAnalyser();
       analyserRef.current.fftSize = 512;
+      audioSourceRef.current.connect(analyserRef.current);
+      analyserRef.current.connect(ctx.destination);
+      analyserRef.current.connect(ensureExportDestination(ctx));
     }
-    audioSourceRef.current.connect(analyserRef.current);
-    analyserRef.current.connect(ctx.destination);
 
     await ctx.resume();
+    return true;
+  }, [ensureAudioContext, ensureExportDestination]);
 
-    const duration = (audio.duration || 8) * 1000;
-    timelineRef.current = {
-      mode: "audio",
-      startTime: performance.now(),
-      duration,
-      tokens: [],
-      segments: [],
-      emotion,
-    };
+  const playAudioFile = useCallback(async () => {
+    const audio = audioElementRef.current;
+    if (!audio || !audioUrl) return;
+    stopAllPlayback();
+    if (!(await connectAudioGraph(audio))) return;
+
+    const duration = audioTrack?.duration ?? (audio.duration || 8) * 1000;
+    timelineRef.current = mediaTimeline("audio", duration, audioTrack, emotion);
+    setTimelineDuration(duration);
 
     audio.currentTime = 0;
+    blinkRef.current = createBlinkSchedule(renderSeed);
+    startRecordingIfRequested();
     audio.play();
     setIsPreviewing(true);
-    setStatus("Analyzing audio");
+    setStatus(audioTrack ? "Playing preview" : "Playing preview · live analysis");
     animationFrameRef.current = requestAnimationFrame(driveAudioTimeline);
-  }, [audioUrl, driveAudioTimeline, emotion, ensureAudioContext, stopAllPlayback]);
+  }, [
+    audioTrack,
+    audioUrl,
+    connectAudioGraph,
+    driveAudioTimeline,
+    emotion,
+    renderSeed,
+    startRecordingIfRequested,
+    stopAllPlayback,
+  ]);
+
+  const startMicrophone = useCallback(async () => {
+    if (typeof navigator === "undefined" || !navigator.mediaDevices) return;
+    stopAllPlayback();
+    const ctx = ensureAudioContext();
+    if (!ctx) return;
+    setStatus("Requesting microphone");
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: false },
+      });
+    } catch (error) {
+      console.error(error);
+      cancelExport();
+      setStatus("Microphone access error");
+      return;
+    }
+
+    micStreamRef.current = stream;
+    micSourceRef.current = ctx.createMediaStreamSource(stream);
+    analyserRef.current = ctx.createAnalyser();
+    analyserRef.current.fftSize = 512;
+    analyserRef.current.smoothingTimeConstant = 0.5;
+    // Not routed to the destination: monitoring the mic through the speakers would feed back.
+    micSourceRef.current.connect(analyserRef.current);
+    micSourceRef.current.connect(ensureExportDestination(ctx));
+
+    await ctx.resume();
+
+    timelineRef.current = mediaTimeline("mic", Infinity, null, emotion);
+
+    blinkRef.current = createBlinkSchedule(renderSeed);
+    startRecordingIfRequested();
+    setIsPreviewing(true);
+    setStatus("Live microphone");
+    animationFrameRef.current = requestAnimationFrame(driveAudioTimeline);
+  }, [
+    cancelExport,
+    driveAudioTimeline,
+    emotion,
+    ensureAudioContext,
+    ensureExportDestination,
+    renderSeed,
+    startRecordingIfRequested,
+    stopAllPlayback,
+  ]);
 
   const handleGenerate = useCallback(() => {
     if (mode === "text") {
       speakText();
+    } else if (mode === "mic") {
+      startMicrophone();
     } else {
       playAudioFile();
     }
-  }, [mode, speakText, playAudioFile]);
+  }, [mode, speakText, playAudioFile, startMicrophone]);
+
+  // Exact visual state `time` ms into a timeline, independent of wall-clock playback.
+  const frameAt = useCallback(
+    (timeline: TimelineState, time: number) => {
+      if (timeline.mode === "text") {
+        return withIdle(timeline, time, textFrameState(timeline, time, timeline.emotion, blinkRef.current));
+      }
+      const mouth: MouthDrive = timeline.audioTrack
+        ? sampleAudioTrack(timeline.audioTrack, time)
+        : { level: 0, openness: 0, width: 0.5, roundness: 0.2 };
+      const ratio = timeline.duration === 0 ? 0 : Math.min(1, time / timeline.duration);
+      const mood = timeline.audioTrack && moodsRef.current ? moodAt(moodsRef.current, time) : null;
+      return withIdle(
+        timeline,
+        time,
+        audioFrameState(
+          mouth,
+          time,
+          mood?.emotion ?? timeline.emotion,
+          blinkRef.current,
+          `${Math.floor(ratio * 100)}% energy`,
+          mood?.intensity,
+        ),
+      );
+    },
+    [withIdle],
+  );
+
+  const holdFrame = useCallback(
+    (timeline: TimelineState, time: number) => {
+      timelineRef.current = { ...timeline, pausedAt: time };
+      const raw = sceneAt(timeline, time);
+      const scene = raw && { active: raw.active, states: raw.states.map((state, index) => snapped(index, state)) };
+      setSceneFrame(scene);
+      setAvatarState(scene ? scene.states[scene.active] : snapped(0, frameAt(timeline, time)));
+      setCaptionFrame(captionAt(timeline, time));
+      setTimelineDuration(timeline.duration);
+      setProgress(timeline.duration === 0 ? 0 : round((time / timeline.duration) * 100, 1));
+    },
+    [captionAt, frameAt, sceneAt, snapped],
+  );
+
+  const pausePlayback = useCallback(() => {
+    const timeline = timelineRef.current;
+    if (!timeline || timeline.mode === "mic" || timeline.pausedAt !== null) return timeline;
+    const audio = audioElementRef.current;
+    const playhead = timeline.mode === "audio" && timeline.audioTrack && audio
+      ? audio.currentTime * 1000
+      : performance.now() - timeline.startTime;
+    const time = Math.max(0, Math.min(timeline.duration, playhead));
+
+    resetAnimationFrame();
+    if (timeline.mode === "text") {
+      stopSpeech();
+    } else {
+      audio?.pause();
+    }
+    holdFrame(timeline, time);
+    setIsPaused(true);
+    setStatus("Paused");
+    return timelineRef.current;
+  }, [holdFrame, resetAnimationFrame, stopSpeech]);
+
+  // Builds a paused timeline for the current inputs so scrubbing works before anything has played.
+  const cueTimeline = useCallback((): TimelineState | null => {
+    let timeline: TimelineState | null = null;
+    if (mode === "text") {
+      const spoken = dialogue?.script ?? script;
+      const track = buildTextTrack(spoken, speechRate, speechPitch, autoGestures, sentimentFor(emotion));
+      if (track.tokens.length === 0) return null;
+      const speech = speechChunks(parseScriptCues(spoken));
+      timeline = {
+        mode: "text",
+        startTime: performance.now(),
+        ...track,
+        speech: dialogue ? castSpeech(speech, dialogue, resolvedCast) : speech,
+        lastBoundary: null,
+        audioTrack: null,
+        emotion,
+        dialogue,
+        pausedAt: 0,
+      };
+    } else if (mode === "audio" && audioTrack) {
+      timeline = { ...mediaTimeline("audio", audioTrack.duration, audioTrack, emotion), pausedAt: 0 };
+    }
+    if (!timeline) return null;
+    blinkRef.current = createBlinkSchedule(renderSeed);
+    speakerBlinksRef.current = dialogue?.speakers.map((_, index) => createBlinkSchedule(renderSeed + index)) ?? [];
+    setTimelineDuration(timeline.duration);
+    setIsPaused(true);
+    return timeline;
+  }, [
+    audioTrack,
+    autoGestures,
+    dialogue,
+    emotion,
+    mode,
+    renderSeed,
+    resolvedCast,
+    script,
+    sentimentFor,
+    speechPitch,
+    speechRate,
+  ]);
+
+  // Pauses (cueing a timeline first if nothing has played) and holds the frame at `target`,
+  // which is resolved against the paused timeline so relative seeks start from the exact playhead.
+  const seekTo = useCallback(
+    (target: (timeline: TimelineState) => number) => {
+      if (isExporting) return;
+      const timeline = pausePlayback() ?? cueTimeline();
+      if (!timeline || timeline.mode === "mic") return;
+      const clamped = Math.max(0, Math.min(timeline.duration, target(timeline)));
+      const audio = audioElementRef.current;
+      if (timeline.mode === "audio" && audio) audio.currentTime = clamped / 1000;
+      holdFrame(timeline, clamped);
+      setStatus(`Paused at ${(clamped / 1000).toFixed(2)}s`);
+    },
+    [cueTimeline, holdFrame, isExporting, pausePlayback],
+  );
+
+  // Steps one frame at the selected export frame rate, so stepping matches what a render would show.
+  const stepFrame = useCallback(
+    (direction: 1 | -1) => {
+      seekTo((timeline) => (timeline.pausedAt ?? 0) + (direction * 1000) / exportSettings[exportFormat].fps);
+    },
+    [exportFormat, exportSettings, seekTo],
+  );
+
+  const resumePlayback = useCallback(async () => {
+    const timeline = timelineRef.current;
+    if (!timeline || timeline.pausedAt === null) return;
+    const at = timeline.pausedAt >= timeline.duration ? 0 : timeline.pausedAt;
+
+    if (timeline.mode === "audio") {
+      const audio = audioElementRef.current;
+      if (!audio || !(await connectAudioGraph(audio))) return;
+      audio.currentTime = at / 1000;
+      timelineRef.current = { ...timeline, startTime: performance.now() - at, pausedAt: null };
+      audio.play();
+      setIsPaused(false);
+      setIsPreviewing(true);
+      setStatus("Playing preview");
+      animationFrameRef.current = requestAnimationFrame(driveAudioTimeline);
+      return;
+    }
+
+    // Speech synthesis cannot seek, so the utterance queue restarts from the word under the playhead.
+    const tokenIndex = tokenAt(timeline.segments, at);
+    const chunks = speechChunksFrom(timeline.speech, timeline.offsets[tokenIndex] ?? 0);
+    if (chunks.length === 0) return;
+    setStatus("Resuming voice");
+    queueSpeech(chunks, () => {
+      const current = timelineRef.current;
+      if (!current) return;
+      timelineRef.current = {
+        ...current,
+        startTime: performance.now() - sum(current.segments, 0, tokenIndex),
+        lastBoundary: null,
+        pausedAt: null,
+      };
+      setIsPaused(false);
+      setIsPreviewing(true);
+      setStatus("Playing preview");
+      animationFrameRef.current = requestAnimationFrame(updateAnimation);
+    });
+  }, [connectAudioGraph, driveAudioTimeline, queueSpeech, updateAnimation]);
+
+  // `moods` restores a saved project's phrases instead of proposing fresh ones.
+  const loadAudioFile = useCallback((file: File, moods: MoodPhrase[] = []) => {
+    const url = URL.createObjectURL(file);
+    setAudioFileName(file.name);
+    setAudioUrl(url);
+    setAudioTrack(null);
+    setMoodPhrases([]);
+    setMode("audio");
+    setStatus("Analyzing audio");
+    pendingAnalysisRef.current = url;
+    decodeAudioFile(file)
+      .then((buffer) => {
+        if (pendingAnalysisRef.current !== url) return;
+        const samples = mixToMono(buffer);
+        const track = analyzeSamples(samples, buffer.sampleRate);
+        setAudioTrack(track);
+        setMoodPhrases(moods.length > 0 ? moods : proposeMoods(samples, buffer.sampleRate, track));
+        setStatus("Audio ready");
+      })
+      .catch((error) => {
+        console.error(error);
+        if (pendingAnalysisRef.current !== url) return;
+        setStatus("Audio ready · live analysis only");
+      });
+  }, []);
+
+  const handleFileUpload = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      if (file) loadAudioFile(file);
+    },
+    [loadAudioFile],
+  );
+
+  const handleImageUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    setImagePreview(url);
+    setPortraitName(file.name);
+    setPortraitLandmarks(defaultLandmarks);
+    setIsCalibrating(true);
+    setStatus("Drag the anchors onto the eyes, mouth corners and chin");
+  }, []);
+
+  const loadBackgroundFile = useCallback(async (file: File) => {
+    const url = URL.createObjectURL(file);
+    try {
+      let element: HTMLImageElement | HTMLVideoElement;
+      if (file.type.startsWith("video/")) {
+        const video = document.createElement("video");
+        video.muted = true;
+        video.loop = true;
+        video.playsInline = true;
+        video.src = url;
+        await new Promise<void>((resolve, reject) => {
+          video.onloadeddata = () => resolve();
+          video.onerror = () => reject(new Error("Background video failed to load"));
+        });
+        await video.play();
+        element = video;
+      } else {
+        element = await loadImage(url);
+      }
+      setBackgroundMedia({ url, name: file.name, element });
+      setBackgroundKind("media");
+    } catch (error) {
+      console.error(error);
+      URL.revokeObjectURL(url);
+      setStatus("Background could not be loaded");
+    }
+  }, []);
+
+  const handleBackgroundUpload = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (file) void loadBackgroundFile(file);
+    },
+    [loadBackgroundFile],
+  );
+
+  // Styles only change once they are stored, so a failed save leaves the draft open to retry.
+  const persistCustomStyles = useCallback((styles: AvatarStyle[]) => {
+    const error = saveCustomStyles(styles);
+    setStyleError(error && `Could not store custom styles in this browser: ${error}`);
+    if (error) return false;
+    setCustomStyles(styles);
+    return true;
+  }, []);
+
+  const currentSettings = useCallback(
+    (): ProjectSettings => ({
+      mode,
+      script,
+      emotion,
+      avatarId: selectedAvatarId,
+      voiceName,
+      speechRate,
+      speechPitch,
+      autoGestures,
+      autoSentiment,
+      sentimentOverrides,
+      micGate,
+      micSensitivity,
+      motion: motionSettings,
+      renderSeed,
+      exportFormat,
+      exportSettings,
+      portraitLandmarks,
+      captionStyle,
+      captionOptions,
+      speakerCast,
+      sceneLayout,
+      backgroundKind,
+      backgroundColor,
+      autoMood,
+      moodPhrases,
+      customStyles,
+    }),
+    [
+      autoGestures,
+      autoMood,
+      autoSentiment,
+      backgroundColor,
+      backgroundKind,
+      captionOptions,
+      captionStyle,
+      customStyles,
+      emotion,
+      exportFormat,
+      exportSettings,
+      micGate,
+      micSensitivity,
+      mode,
+      moodPhrases,
+      motionSettings,
+      portraitLandmarks,
+      renderSeed,
+      sceneLayout,
+      script,
+      selectedAvatarId,
+      sentimentOverrides,
+      speakerCast,
+      speechPitch,
+      speechRate,
+      voiceName,
+    ],
+  );
+
+  const buildProject = useCallback(
+    async (embed: boolean): Promise<Project> => {
+      const media = async (url: string | null, name: string | null, fallbackName: string): Promise<ProjectMedia | null> => {
+        if (!url) return null;
+        if (!embed) return { kind: "reference", name: name ?? fallbackName, url: /^https?:/i.test(url) ? url : null };
+        const blob = await (await fetch(url)).blob();
+        return { kind: "embedded", name: name ?? fallbackName, mimeType: blob.type, dataUrl: await blobToDataUrl(blob) };
+      };
+      return {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        id: projectId,
+        name: projectName.trim() || "Untitled project",
+        createdAt: projectCreatedAt,
+        savedAt: new Date().toISOString(),
+        settings: currentSettings(),
+        media: {
+          portrait: await media(imagePreview, portraitName, "portrait"),
+          audio: await media(audioUrl, audioFileName, "audio"),
+          background: await media(backgroundMedia?.url ?? null, backgroundMedia?.name ?? null, "background"),
+        },
+      };
+    },
+    [
+      audioFileName,
+      audioUrl,
+      backgroundMedia,
+      currentSettings,
+      imagePreview,
+      portraitName,
+      projectCreatedAt,
+      projectId,
+      projectName,
+    ],
+  );
+
+  const refreshRecentProjects = useCallback(() => {
+    listRecentProjects()
+      .then(setRecentProjects)
+      .catch((error) => console.error(error));
+  }, []);
+
+  const applyProject = useCallback(
+    async (project: Project) => {
+      stopAllPlayback();
+      const { settings, media } = project;
+      setProjectId(project.id);
+      setProjectName(project.name);
+      setProjectCreatedAt(project.createdAt);
+      setScript(settings.script);
+      setEmotion(settings.emotion);
+      // The project's styles replace local ones with the same id; they stay usable for this session
+      // even if the browser will not store them.
+      const styles = [
+        ...customStyles.filter((style) => !settings.customStyles.some((saved) => saved.id === style.id)),
+        ...settings.customStyles,
+      ];
+      if (settings.customStyles.length > 0 && !persistCustomStyles(styles)) setCustomStyles(styles);
+      const deck = [...avatarStyles, ...styles];
+      setSelectedAvatarId(deck.some((avatar) => avatar.id === settings.avatarId) ? settings.avatarId : avatarStyles[0].id);
+      if (settings.voiceName) setVoiceName(settings.voiceName);
+      setSpeechRate(settings.speechRate);
+      setSpeechPitch(settings.speechPitch);
+      setAutoGestures(settings.autoGestures);
+      setAutoSentiment(settings.autoSentiment);
+      setSentimentOverrides(settings.sentimentOverrides);
+      setMicGate(settings.micGate);
+      setMicSensitivity(settings.micSensitivity);
+      setMotionSettings(settings.motion);
+      setRenderSeed(settings.renderSeed);
+      setExportFormat(settings.exportFormat);
+      setExportSettings(settings.exportSettings);
+      setCaptionStyle(settings.captionStyle);
+      setCaptionOptions(settings.captionOptions);
+      setSpeakerCast(settings.speakerCast);
+      setSceneLayout(settings.sceneLayout);
+      setBackgroundColor(settings.backgroundColor);
+      setAutoMood(settings.autoMood);
+
+      const missing: string[] = [];
+      const resolve = async (item: ProjectMedia | null) => {
+        if (!item) return null;
+        if (item.kind === "embedded") return fetchAsFile(item.dataUrl, item.name);
+        if (!item.url) missing.push(item.name);
+        return item.url;
+      };
+
+      const portrait = await resolve(media.portrait);
+      setImagePreview(portrait instanceof File ? URL.createObjectURL(portrait) : portrait);
+      setPortraitName(media.portrait?.name ?? null);
+      setPortraitLandmarks(portrait ? settings.portraitLandmarks ?? defaultLandmarks : null);
+      setIsCalibrating(false);
+
+      const audio = await resolve(media.audio);
+      pendingAnalysisRef.current = null;
+      if (audio instanceof File) {
+        loadAudioFile(audio, settings.moodPhrases);
+      } else if (audio) {
+        loadAudioFile(await fetchAsFile(audio, media.audio?.name ?? "audio"), settings.moodPhrases);
+      } else {
+        setAudioUrl(null);
+        setAudioTrack(null);
+        setMoodPhrases([]);
+        setAudioFileName(null);
+      }
+
+      const background = await resolve(media.background);
+      if (background) {
+        await loadBackgroundFile(
+          background instanceof File ? background : await fetchAsFile(background, media.background?.name ?? "background"),
+        );
+      } else {
+        setBackgroundMedia(null);
+      }
+      // Loading the media switches to it, so the saved choice is applied afterwards.
+      setBackgroundKind(settings.backgroundKind);
+      setMode(settings.mode);
+      setStatus(missing.length ? `Project opened · re-upload ${missing.join(", ")}` : `Opened “${project.name}”`);
+    },
+    [customStyles, loadAudioFile, loadBackgroundFile, persistCustomStyles, stopAllPlayback],
+  );
+
+  const handleSaveProject = useCallback(async () => {
+    try {
+      // Browser storage always embeds media: blob URLs do not survive a reload.
+      const project = await buildProject(true);
+      await saveProjectRecord(project);
+      refreshRecentProjects();
+      setStatus(`Saved “${project.name}” in this browser`);
+    } catch (error) {
+      console.error(error);
+      setStatus("Project save error");
+    }
+  }, [buildProject, refreshRecentProjects]);
+
+  const handleDownloadProject = useCallback(async () => {
+    try {
+      const project = await buildProject(embedMedia);
+      const blob = new Blob([JSON.stringify(project, null, 2)], { type: "application/json" });
+      downloadBlob(blob, projectFileName(project));
+      setStatus("Project file downloaded");
+    } catch (error) {
+      console.error(error);
+      setStatus("Project export error");
+    }
+  }, [buildProject, embedMedia]);
+
+  const handleOpenProjectFile = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) return;
+      try {
+        await applyProject(readProjectFile(await file.text(), currentSettings()));
+      } catch (error) {
+        console.error(error);
+        setStatus(error instanceof Error ? error.message : "Project open error");
+      }
+    },
+    [applyProject, currentSettings],
+  );
+
+  const handleOpenRecent = useCallback(
+    async (id: string) => {
+      try {
+        const record = await loadProjectRecord(id);
+        if (!record) {
+          setStatus("Project no longer in browser storage");
+          refreshRecentProjects();
+          return;
+        }
+        await applyProject(parseProject(record, currentSettings()));
+      } catch (error) {
+        console.error(error);
+        setStatus(error instanceof Error ? error.message : "Project open error");
+      }
+    },
+    [applyProject, currentSettings, refreshRecentProjects],
+  );
+
+  const handleDeleteRecent = useCallback(
+    (id: string) => {
+      deleteProjectRecord(id)
+        .then(refreshRecentProjects)
+        .catch((error) => console.error(error));
+    },
+    [refreshRecentProjects],
+  );
+
+  const updateStyleDraft = useCallback((patch: Partial<AvatarStyle>) => {
+    setStyleDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+  }, []);
+
+  // The draft is what the stage previews; nothing is stored until it is saved.
+  const handleSaveStyle = useCallback(() => {
+    if (!styleDraft) return;
+    const saved = { ...styleDraft, label: styleDraft.label.trim() || "Custom", background: styleBackground(styleDraft) };
+    const exists = customStyles.some((style) => style.id === saved.id);
+    const styles = exists ? customStyles.map((style) => (style.id === saved.id ? saved : style)) : [...customStyles, saved];
+    if (!persistCustomStyles(styles)) return;
+    setSelectedAvatarId(saved.id);
+    setStyleDraft(null);
+    setStatus(`Saved style “${saved.label}”`);
+  }, [customStyles, persistCustomStyles, styleDraft]);
+
+  const handleDeleteStyle = useCallback(
+    (id: string) => {
+      if (!persistCustomStyles(customStyles.filter((style) => style.id !== id))) return;
+      if (selectedAvatarId === id) setSelectedAvatarId(avatarStyles[0].id);
+      setStyleDraft((prev) => (prev?.id === id ? null : prev));
+    },
+    [customStyles, persistCustomStyles, selectedAvatarId],
+  );
+
+  // Exports record the preview itself: the recorder starts when the timeline starts and stops
+  // wherever the preview stops, so the file always spans the full performance.
+  const handleExport = useCallback(async () => {
+    if (!canvasRef.current || isExporting) return;
+    if (mode === "audio" && !audioUrl) {
+      setStatus("Upload audio before exporting");
+      return;
+    }
+    stopAllPlayback();
+
+    const extraTracks: MediaStreamTrack[] = [];
+    if (mode === "text" && captureSpeechAudio) {
+      // Speech synthesis never passes through Web Audio; the only way to record it is to
+      // capture this tab's own output.
+      try {
+        const display = await navigator.mediaDevices.getDisplayMedia({
+          video: true,
+          audio: true,
+          preferCurrentTab: true,
+        } as DisplayMediaStreamOptions);
+        display.getVideoTracks().forEach((track) => track.stop());
+        extraTracks.push(...display.getAudioTracks());
+      } catch (error) {
+        console.error(error);
+        setStatus("Tab audio capture declined · exporting silent video");
+      }
+    }
+
+    exportRequestRef.current = { extraTracks, includeGraphAudio: mode !== "text" };
+    setIsExporting(true);
+    setStatus("Recording preview");
+    handleGenerate();
+  }, [audioUrl, captureSpeechAudio, handleGenerate, isExporting, mode, stopAllPlayback]);
+
+  const editSentenceTag = useCallback((key: string, mood: Mood | null) => {
+    setSentimentOverrides((prev) => {
+      const next = Object.assign(emptySentimentOverrides(), prev);
+      if (mood) next[key] = mood;
+      else delete next[key];
+      return next;
+    });
+  }, []);
+
+  const overrideMood = useCallback((id: number, patch: Partial<Mood>) => {
+    setMoodPhrases((prev) => prev.map((phrase) => (phrase.id === id ? { ...phrase, ...patch, status: "overridden" } : phrase)));
+  }, []);
+
+  // Accepts one proposal, or every proposal still pending when no id is given. Overrides stand.
+  const acceptMoods = useCallback((id?: number) => {
+    setMoodPhrases((prev) =>
+      prev.map((phrase) =>
+        phrase.status === "proposed" && (id === undefined || phrase.id === id) ? { ...phrase, status: "accepted" } : phrase,
+      ),
+    );
+  }, []);
+
+  const resetMood = useCallback((id: number) => {
+    setMoodPhrases((prev) =>
+      prev.map((phrase) => (phrase.id === id ? { ...phrase, ...phrase.proposed, status: "proposed" } : phrase)),
+    );
+  }, []);
+
+  const updateMotionSettings = useCallback((channel: MotionChannel, patch: Partial<MotionSettings[MotionChannel]>) => {
+    setMotionSettings((prev) => ({ ...prev, [channel]: { ...prev[channel], ...patch } }));
+  }, []);
+
+  const updateCaptionStyle = useCallback((patch: Partial<CaptionStyle>) => {
+    setCaptionStyle((prev) => ({ ...prev, ...patch }));
+  }, []);
+
+  const updateExportSettings = useCallback(
+    (patch: Partial<ExportSettings>) => {
+      setExportSettings((prev) => ({ ...prev, [exportFormat]: { ...prev[exportFormat], ...patch } }));
+    },
+    [exportFormat],
+  );
+
+  // Renders on a virtual clock instead of recording the live preview, so every run with the
+  // same inputs and seed produces the same frames.
+  const handleOfflineRender = useCallback(async () => {
+    if (isRendering) return;
+    if (mode === "mic") {
+      setStatus("Live mic sessions cannot be rendered offline");
+      return;
+    }
+    if (mode === "audio" && (!audioUrl || !audioTrack)) {
+      setStatus("Upload and analyze audio before rendering");
+      return;
+    }
+    stopAllPlayback();
+    setIsRendering(true);
+    setStatus("Preparing offline render");
+
+    try {
+      const blink = createBlinkSchedule(renderSeed);
+      const idle = createIdleBehavior(renderSeed);
+      const image = imagePreview ? await loadImage(imagePreview) : null;
+      let duration: number;
+      let stateAt: (time: number) => AvatarVisualState;
+      let captionsAt: (time: number) => CaptionLayer | null = () => null;
+      // Set by stateAt for dialogue scenes; the renderer calls stateAt right before each draw.
+      let scene: SceneFrame | null = null;
+      let audio: AudioBuffer | null = null;
+
+      if (mode === "audio" && audioUrl && audioTrack) {
+        duration = audioTrack.duration;
+        stateAt = (time) => {
+          const mood = autoMood ? moodAt(moodPhrases, time) : null;
+          const label = `${Math.floor((time / duration) * 100)}% energy`;
+          return blendWithIdle(
+            audioFrameState(sampleAudioTrack(audioTrack, time), time, mood?.emotion ?? emotion, blink, label, mood?.intensity),
+            idle(time, emotion),
+            time,
+            duration,
+          );
+        };
+        const file = await (await fetch(audioUrl)).blob();
+        audio = await decodeAudioFile(file, 48000);
+      } else {
+        const track = buildTextTrack(
+          dialogue?.script ?? script,
+          speechRate,
+          speechPitch,
+          autoGestures,
+          sentimentFor(emotion),
+        );
+        if (track.tokens.length === 0) {
+          setStatus("Write a script before rendering");
+          return;
+        }
+        duration = track.duration;
+        if (dialogue) {
+          const blinks = dialogue.speakers.map((_, index) => createBlinkSchedule(renderSeed + index));
+          stateAt = (time) => {
+            const frame = dialogueFrameStates(track, dialogue, time, emotion, blinks);
+            const rest = idle(time, emotion);
+            scene = { active: frame.active, states: frame.states.map((state) => blendWithIdle(state, rest, time, track.duration)) };
+            return scene.states[scene.active];
+          };
+        } else {
+          stateAt = (time) => blendWithIdle(textFrameState(track, time, emotion, blink), idle(time, emotion), time, track.duration);
+        }
+        captionsAt = captionTrack(track, captionOptions, captionStyle);
+      }
+
+      const preset = exportPresets[exportFormat];
+      const { size, fps } = exportSettings[exportFormat];
+      let warning: string | null =
+        stageBackground.kind === "transparent" && !preset.hasAlpha
+          ? `${preset.label} has no alpha channel; the background was exported black`
+          : null;
+      // The live stage keeps playing the background video; the render steps it frame by frame.
+      const backgroundVideo = backgroundVideoOf(stageBackground);
+      backgroundVideo?.pause();
+      const blob = await renderExport(exportFormat, {
+        fps,
+        duration,
+        width: size,
+        height: size,
+        stateAt,
+        prepare: backgroundVideo ? (time) => seekVideo(backgroundVideo, time) : undefined,
+        draw: (ctx, state, time) => {
+          ctx.scale(size / CANVAS_WIDTH, size / CANVAS_HEIGHT);
+          if (scene) {
+            const presenters = scene.states.map((presenter, index) => ({ state: presenter, style: castStyles[index] }));
+            renderSceneFrame(ctx, presenters, scene.active, sceneLayout, { caption: captionsAt(time), background: stageBackground });
+          } else {
+            renderAvatarFrame(ctx, state, avatarStyle, {
+              image,
+              landmarks: portraitLandmarks,
+              caption: captionsAt(time),
+              background: stageBackground,
+            });
+          }
+        },
+        alpha: stageBackground.kind === "transparent",
+        audio: preset.hasAudio ? audio : null,
+        onWarning: (message) => {
+          warning = message;
+        },
+        onProgress: (frame, total) => {
+          if (frame % 10 === 0 || frame === total) {
+            setStatus(`Rendering frame ${frame}/${total}`);
+            setProgress(round((frame / total) * 100, 1));
+          }
+        },
+      });
+      downloadBlob(blob, `lipforge-render-${renderSeed}-${Date.now()}.${preset.extension}`);
+      setStatus(warning ?? `${preset.label} export complete`);
+    } catch (error) {
+      console.error(error);
+      setStatus("Offline render error");
+    } finally {
+      void backgroundVideoOf(stageBackground)?.play();
+      setIsRendering(false);
+      setProgress(0);
+    }
+  }, [
+    audioTrack,
+    audioUrl,
+    autoGestures,
+    autoMood,
+    avatarStyle,
+    captionOptions,
+    captionStyle,
+    castStyles,
+    dialogue,
+    emotion,
+    exportFormat,
+    exportSettings,
+    imagePreview,
+    isRendering,
+    mode,
+    moodPhrases,
+    portraitLandmarks,
+    renderSeed,
+    sceneLayout,
+    script,
+    sentimentFor,
+    speechPitch,
+    speechRate,
+    stageBackground,
+    stopAllPlayback,
+  ]);
+
+  useEffect(() => {
+    batchJobsRef.current = batchJobs;
+  }, [batchJobs]);
+
+  const updateBatchJob = useCallback((id: number, patch: Partial<BatchJob>) => {
+    setBatchJobs((prev) => prev.map((job) => (job.id === id ? { ...job, ...patch } : job)));
+  }, []);
+
+  const handleQueueBatch = useCallback(() => {
+    const { rows, errors } = parseBatch(batchText);
+    setBatchErrors(errors);
+    setBatchJobs(createBatchJobs(rows));
+    setStatus(rows.length > 0 ? `${rows.length} batch job${rows.length === 1 ? "" : "s"} queued` : "No batch rows to queue");
+  }, [batchText]);
+
+  const handleBatchFile = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setBatchText(await file.text());
+  }, []);
+
+  // Each row is a single-presenter text render through the same offline path as the Export
+  // button, using the current export, caption and background settings.
+  const renderBatchRow = useCallback(
+    async (row: BatchRow, onProgress: (frame: number, total: number) => void) => {
+      const style = row.avatarId ? deckStyles.find((avatar) => avatar.id === row.avatarId) : avatarStyle;
+      if (!style) throw new Error(`Unknown avatar “${row.avatarId}”`);
+      const track = buildTextTrack(row.script, speechRate, speechPitch, autoGestures, sentimentFor(row.emotion));
+      if (track.tokens.length === 0) throw new Error("Script has no spoken words");
+      // The uploaded portrait stands in for the selected avatar only.
+      const image = !row.avatarId && imagePreview ? await loadImage(imagePreview) : null;
+      const blink = createBlinkSchedule(renderSeed);
+      const idle = createIdleBehavior(renderSeed);
+      const captionsAt = captionTrack(track, captionOptions, captionStyle);
+      const { size, fps } = exportSettings[exportFormat];
+      const backgroundVideo = backgroundVideoOf(stageBackground);
+      let warning: string | null = null;
+      const blob = await renderExport(exportFormat, {
+        fps,
+        duration: track.duration,
+        width: size,
+        height: size,
+        stateAt: (time) => blendWithIdle(textFrameState(track, time, row.emotion, blink), idle(time, row.emotion), time, track.duration),
+        prepare: backgroundVideo ? (time) => seekVideo(backgroundVideo, time) : undefined,
+        draw: (ctx, state, time) => {
+          ctx.scale(size / CANVAS_WIDTH, size / CANVAS_HEIGHT);
+          renderAvatarFrame(ctx, state, style, {
+            image,
+            landmarks: portraitLandmarks,
+            caption: captionsAt(time),
+            background: stageBackground,
+          });
+        },
+        alpha: stageBackground.kind === "transparent",
+        onWarning: (message) => {
+          warning = message;
+        },
+        onProgress,
+      });
+      if (row.voice && availableVoices.length > 0 && !availableVoices.some((voice) => voice.name === row.voice)) {
+        warning = warning ?? `Voice “${row.voice}” is not installed in this browser`;
+      }
+      return { blob, fileName: `${row.output}.${exportPresets[exportFormat].extension}`, warning };
+    },
+    [
+      autoGestures,
+      availableVoices,
+      avatarStyle,
+      captionOptions,
+      captionStyle,
+      deckStyles,
+      exportFormat,
+      exportSettings,
+      imagePreview,
+      portraitLandmarks,
+      renderSeed,
+      sentimentFor,
+      speechPitch,
+      speechRate,
+      stageBackground,
+    ],
+  );
+
+  const handleRunBatch = useCallback(async () => {
+    if (isBatchRunning || isRendering) return;
+    stopAllPlayback();
+    batchStopRef.current = false;
+    setIsBatchRunning(true);
+    setIsRendering(true);
+    const backgroundVideo = backgroundVideoOf(stageBackground);
+    backgroundVideo?.pause();
+    let finished = 0;
+    let failed = 0;
+    try {
+      for (;;) {
+        const job = batchJobsRef.current.find((entry) => entry.status === "queued");
+        if (!job || batchStopRef.current) break;
+        // Claim the job before the first await so the lookup above cannot return it again.
+        batchJobsRef.current = batchJobsRef.current.map((entry) => (entry.id === job.id ? { ...entry, status: "rendering" } : entry));
+        updateBatchJob(job.id, { status: "rendering", progress: 0, error: null, warning: null, result: null });
+        setStatus(`Batch · rendering ${job.row.output}`);
+        try {
+          const { blob, fileName, warning } = await renderBatchRow(job.row, (frame, total) => {
+            if (frame % 10 === 0 || frame === total) updateBatchJob(job.id, { progress: round((frame / total) * 100, 0) });
+          });
+          updateBatchJob(job.id, { status: "done", progress: 100, warning, result: { blob, fileName } });
+          finished += 1;
+        } catch (error) {
+          console.error(error);
+          updateBatchJob(job.id, { status: "failed", error: error instanceof Error ? error.message : "Render failed" });
+          failed += 1;
+        }
+      }
+      setStatus(
+        batchStopRef.current
+          ? "Batch stopped"
+          : `Batch complete · ${finished} rendered${failed > 0 ? ` · ${failed} failed` : ""}`,
+      );
+    } finally {
+      void backgroundVideo?.play();
+      setIsBatchRunning(false);
+      setIsRendering(false);
+    }
+  }, [isBatchRunning, isRendering, renderBatchRow, stageBackground, stopAllPlayback, updateBatchJob]);
 
-  const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-    const url = URL.createObjectURL(file);
-    setAudioFileName(file.name);
-    setAudioUrl(url);
-    setMode("audio");
-    setStatus("Audio ready");
+  // Without an id, every failed job goes back in the queue.
+  const handleRetryBatchJob = useCallback((id?: number) => {
+    setBatchJobs((prev) =>
+      prev.map((job) =>
+        job.status === "failed" && (id === undefined || job.id === id) ? { ...job, status: "queued", progress: 0, error: null } : job,
+      ),
+    );
   }, []);
 
-  const handleImageUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-    const url = URL.createObjectURL(file);
-    setImagePreview(url);
-  }, []);
+  const handleDownloadBatch = useCallback(async () => {
+    const results = batchJobs.flatMap((job) => (job.result ? [job.result] : []));
+    if (results.length === 0) return;
+    const entries: ZipEntry[] = await Promise.all(
+      results.map(async ({ blob, fileName }) => ({ name: fileName, data: new Uint8Array(await blob.arrayBuffer()) })),
+    );
+    entries.push({ name: "manifest.json", data: new TextEncoder().encode(batchManifest(batchJobs)) });
+    downloadBlob(createZip(entries), `lipforge-batch-${Date.now()}.zip`);
+  }, [batchJobs]);
 
-  const handleExport = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const stream = canvas.captureStream(60);
-    const mimeType = MediaRecorder.isTypeSupported("video/webm;codecs=vp9")
-      ? "video/webm;codecs=vp9"
-      : MediaRecorder.isTypeSupported("video/webm;codecs=vp8")
-      ? "video/webm;codecs=vp8"
-      : "video/webm";
-    recorderRef.current = new MediaRecorder(stream, { mimeType });
-    recordingChunksRef.current = [];
-    recorderRef.current.ondataavailable = (event) => {
-      if (event.data && event.data.size > 0) {
-        recordingChunksRef.current.push(event.data);
+  // Prefers the last preview's timing, which boundary events have already pulled onto the real
+  // voice; falls back to the estimate offline renders use when the script has changed since.
+  const handleCaptionExport = useCallback(
+    (kind: "srt" | "vtt" | "json") => {
+      if (mode !== "text") {
+        setStatus("Captions are built from the text timeline");
+        return;
       }
-    };
-    recorderRef.current.onstop = () => {
-      const blob = new Blob(recordingChunksRef.current, { type: mimeType });
-      const downloadUrl = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = downloadUrl;
-      link.download = `lipforge-preview-${Date.now()}.webm`;
-      link.click();
-      URL.revokeObjectURL(downloadUrl);
-      setStatus("Export generated");
-    };
-    recorderRef.current.start();
-    setStatus("Recording canvas");
-    setTimeout(() => {
-      if (recorderRef.current && recorderRef.current.state === "recording") {
-        recorderRef.current.stop();
+      const track = buildTextTrack(dialogue?.script ?? script, speechRate, speechPitch);
+      if (track.tokens.length === 0) {
+        setStatus("Write a script before exporting captions");
+        return;
+      }
+      const timeline = timelineRef.current;
+      const source =
+        timeline?.mode === "text" && timeline.tokens.join(" ") === track.tokens.join(" ") ? timeline : track;
+      const words = wordTimings(source.tokens, source.segments, source.holds);
+      const stamp = Date.now();
+      if (kind === "json") {
+        downloadBlob(new Blob([toWordJson(words, source.duration)], { type: "application/json" }), `lipforge-words-${stamp}.json`);
+      } else {
+        const cues = groupCaptions(words, captionOptions);
+        const text = kind === "srt" ? toSrt(cues) : toWebVtt(cues);
+        downloadBlob(new Blob([text], { type: kind === "srt" ? "application/x-subrip" : "text/vtt" }), `lipforge-captions-${stamp}.${kind}`);
       }
-    }, 8000);
+      setStatus(`${kind === "json" ? "Word timing" : kind.toUpperCase()} downloaded`);
+    },
+    [captionOptions, dialogue, mode, script, speechPitch, speechRate],
+  );
+
+  useEffect(() => {
+    micSettingsRef.current = { gate: micGate, sensitivity: micSensitivity };
+  }, [micGate, micSensitivity]);
+
+  useEffect(() => {
+    motionSettingsRef.current = motionSettings;
+  }, [motionSettings]);
+
+  useEffect(() => {
+    moodsRef.current = autoMood && moodPhrases.length > 0 ? moodPhrases : null;
+  }, [autoMood, moodPhrases]);
+
+  useEffect(() => {
+    idleRef.current = createIdleBehavior(renderSeed);
+  }, [renderSeed]);
+
+  // Keeps the presenter alive between previews. Paused timelines hold their frame instead, and
+  // renders have the main thread to themselves.
+  const isIdle = !isPreviewing && !isPaused && !isRendering && !isExporting && !isCalibrating;
+  useEffect(() => {
+    if (!isIdle) return;
+    const origin = performance.now() - idleTimeRef.current;
+    let frame = requestAnimationFrame(function tick(now) {
+      idleTimeRef.current = now - origin;
+      setAvatarState(smoothed(0, idleRef.current(idleTimeRef.current, emotion)));
+      frame = requestAnimationFrame(tick);
+    });
+    return () => {
+      cancelAnimationFrame(frame);
+      idleBaseRef.current = idleTimeRef.current;
+    };
+  }, [emotion, isIdle, smoothed]);
+
+  useEffect(() => {
+    captionOptionsRef.current = captionOptions;
+  }, [captionOptions]);
+
+  useEffect(() => {
+    refreshRecentProjects();
+  }, [refreshRecentProjects]);
+
+  useEffect(() => {
+    setCustomStyles(loadCustomStyles());
   }, []);
 
   useEffect(() => {
@@ -435,6 +1952,14 @@ export default function Home() {
     };
   }, [audioUrl, imagePreview, stopAllPlayback]);
 
+  useEffect(() => {
+    return () => {
+      if (!backgroundMedia) return;
+      if (backgroundMedia.element instanceof HTMLVideoElement) backgroundMedia.element.pause();
+      URL.revokeObjectURL(backgroundMedia.url);
+    };
+  }, [backgroundMedia]);
+
   const activityTag = useMemo(() => {
     if (isPreviewing) return "Live Preview";
     switch (mode) {
@@ -442,6 +1967,8 @@ export default function Home() {
         return "Text-to-Speech";
       case "audio":
         return "Audio-to-Avatar";
+      case "mic":
+        return "Live Puppeteering";
       default:
         return "Studio";
     }
@@ -499,7 +2026,7 @@ export default function Home() {
                 </p>
               </div>
               <div style={{ display: "flex", gap: "12px" }}>
-                <button className="button-outline" onClick={stopAllPlayback} disabled={!isPreviewing}>
+                <button className="button-outline" onClick={stopAllPlayback} disabled={!isPreviewing && !isPaused}>
                   Stop
                 </button>
                 <button className="button-primary" onClick={handleGenerate}>
@@ -512,13 +2039,32 @@ export default function Home() {
               className="glass-border flex flex-col items-center justify-center gap-6 rounded-3xl p-6"
               style={{ position: "relative" }}
             >
-              <AvatarStage
-                ref={canvasRef}
-                state={avatarState}
-                avatarStyle={avatarStyle}
-                imageSrc={imagePreview ?? undefined}
-                className="rounded-[32px] shadow-[0_30px_60px_rgba(15,23,42,0.55)]"
-              />
+              <div
+                className="rounded-[32px]"
+                style={{
+                  position: "relative",
+                  // Checkerboard behind a transparent stage, as in any image editor.
+                  background:
+                    stageBackground.kind === "transparent"
+                      ? "repeating-conic-gradient(rgba(148,163,184,0.35) 0% 25%, rgba(15,23,42,0.9) 0% 50%) 0 0 / 24px 24px"
+                      : undefined,
+                }}
+              >
+                <AvatarStage
+                  ref={canvasRef}
+                  state={isCalibrating ? defaultVisualState : avatarState}
+                  avatarStyle={styleDraft ?? avatarStyle}
+                  imageSrc={imagePreview ?? undefined}
+                  landmarks={portraitLandmarks}
+                  caption={captionLayer}
+                  background={stageBackground}
+                  scene={stageScene}
+                  className="rounded-[32px] shadow-[0_30px_60px_rgba(15,23,42,0.55)]"
+                />
+                {isCalibrating && imagePreview && portraitLandmarks && (
+                  <LandmarkEditor landmarks={portraitLandmarks} onChange={setPortraitLandmarks} />
+                )}
+              </div>
 
               <div className="flex w-full flex-wrap items-center justify-between gap-4 pt-4">
                 <div style={{ display: "flex", alignItems: "center", gap: "12px" }}>
@@ -531,14 +2077,249 @@ export default function Home() {
                   </div>
                 </div>
                 <div style={{ display: "flex", gap: "10px" }}>
-                  <button className="button-outline" onClick={handleExport}>
-                    Export MP4
+                  {mode === "text" && (
+                    <label className="flex items-center gap-2 text-xs text-[rgba(148,163,184,0.9)]">
+                      <input
+                        type="checkbox"
+                        checked={captureSpeechAudio}
+                        onChange={(event) => setCaptureSpeechAudio(event.target.checked)}
+                      />
+                      Record voice (tab audio)
+                    </label>
+                  )}
+                  <button className="button-outline" onClick={handleExport} disabled={isExporting}>
+                    {isExporting ? "Recording…" : "Record Live"}
                   </button>
                   <button className="button-outline" onClick={handleGenerate}>
                     Regenerate
                   </button>
                 </div>
               </div>
+
+              <div className="flex w-full items-center gap-3">
+                <button
+                  className="button-outline"
+                  onClick={() => stepFrame(-1)}
+                  disabled={!transportEnabled}
+                  aria-label="Previous frame"
+                >
+                  ◀
+                </button>
+                <button
+                  className="button-outline"
+                  onClick={isPaused ? resumePlayback : pausePlayback}
+                  disabled={!transportEnabled || (!isPaused && !isPreviewing)}
+                >
+                  {isPaused ? "Resume" : "Pause"}
+                </button>
+                <button
+                  className="button-outline"
+                  onClick={() => stepFrame(1)}
+                  disabled={!transportEnabled}
+                  aria-label="Next frame"
+                >
+                  ▶
+                </button>
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  step="0.1"
+                  value={progress}
+                  onChange={(event) => {
+                    const ratio = parseFloat(event.target.value) / 100;
+                    seekTo((timeline) => timeline.duration * ratio);
+                  }}
+                  disabled={!transportEnabled}
+                  className="flex-1"
+                  aria-label="Timeline position"
+                />
+                <span className="w-28 text-right text-xs tabular-nums text-[rgba(148,163,184,0.9)]">
+                  {((progress / 100) * timelineDuration / 1000).toFixed(2)}s / {(timelineDuration / 1000).toFixed(2)}s
+                </span>
+              </div>
+
+              <div className="flex w-full flex-wrap items-end justify-between gap-4 rounded-2xl border border-[rgba(148,163,184,0.15)] bg-[rgba(2,6,23,0.55)] px-4 py-3">
+                <div className="flex flex-wrap items-end gap-3">
+                  <label className="flex flex-col gap-1 text-xs text-[rgba(148,163,184,0.9)]">
+                    Format
+                    <select
+                      value={exportFormat}
+                      onChange={(event) => setExportFormat(event.target.value as ExportFormat)}
+                      className="rounded-xl border border-[rgba(148,163,184,0.18)] bg-[rgba(2,6,23,0.75)] px-3 py-2 text-sm text-white outline-none"
+                    >
+                      {exportFormats.map((preset) => (
+                        <option key={preset.id} value={preset.id}>
+                          {preset.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex flex-col gap-1 text-xs text-[rgba(148,163,184,0.9)]">
+                    Size
+                    <select
+                      value={exportSettings[exportFormat].size}
+                      onChange={(event) => updateExportSettings({ size: parseInt(event.target.value, 10) })}
+                      className="rounded-xl border border-[rgba(148,163,184,0.18)] bg-[rgba(2,6,23,0.75)] px-3 py-2 text-sm text-white outline-none"
+                    >
+                      {exportPresets[exportFormat].sizes.map((size) => (
+                        <option key={size} value={size}>
+                          {size}×{size}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex flex-col gap-1 text-xs text-[rgba(148,163,184,0.9)]">
+                    Frame rate
+                    <select
+                      value={exportSettings[exportFormat].fps}
+                      onChange={(event) => updateExportSettings({ fps: parseInt(event.target.value, 10) })}
+                      className="rounded-xl border border-[rgba(148,163,184,0.18)] bg-[rgba(2,6,23,0.75)] px-3 py-2 text-sm text-white outline-none"
+                    >
+                      {exportPresets[exportFormat].fpsOptions.map((fps) => (
+                        <option key={fps} value={fps}>
+                          {fps} fps
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex flex-col gap-1 text-xs text-[rgba(148,163,184,0.9)]">
+                    Seed
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={renderSeed}
+                      onChange={(event) => setRenderSeed(Math.max(0, parseInt(event.target.value, 10) || 0))}
+                      className="w-24 rounded-xl border border-[rgba(148,163,184,0.18)] bg-[rgba(2,6,23,0.75)] px-3 py-2 text-sm text-white outline-none"
+                    />
+                  </label>
+                </div>
+                <button className="button-outline" onClick={handleOfflineRender} disabled={isRendering || mode === "mic"}>
+                  {isRendering ? "Rendering…" : `Export ${exportPresets[exportFormat].label}`}
+                </button>
+              </div>
+
+              <div className="flex w-full flex-wrap items-end justify-between gap-4 rounded-2xl border border-[rgba(148,163,184,0.15)] bg-[rgba(2,6,23,0.55)] px-4 py-3">
+                <div className="flex flex-wrap items-end gap-3">
+                  <label className="flex flex-col gap-1 text-xs text-[rgba(148,163,184,0.9)]">
+                    Max line length
+                    <input
+                      type="number"
+                      min="16"
+                      max="80"
+                      step="1"
+                      value={captionOptions.maxLineLength}
+                      onChange={(event) =>
+                        setCaptionOptions((prev) => ({
+                          ...prev,
+                          maxLineLength: Math.max(16, Math.min(80, parseInt(event.target.value, 10) || prev.maxLineLength)),
+                        }))
+                      }
+                      className="w-24 rounded-xl border border-[rgba(148,163,184,0.18)] bg-[rgba(2,6,23,0.75)] px-3 py-2 text-sm text-white outline-none"
+                    />
+                  </label>
+                  <label className="flex flex-col gap-1 text-xs text-[rgba(148,163,184,0.9)]">
+                    Lines
+                    <select
+                      value={captionOptions.maxLines}
+                      onChange={(event) => setCaptionOptions((prev) => ({ ...prev, maxLines: parseInt(event.target.value, 10) }))}
+                      className="rounded-xl border border-[rgba(148,163,184,0.18)] bg-[rgba(2,6,23,0.75)] px-3 py-2 text-sm text-white outline-none"
+                    >
+                      <option value={1}>1</option>
+                      <option value={2}>2</option>
+                    </select>
+                  </label>
+                  <label className="flex flex-col gap-1 text-xs text-[rgba(148,163,184,0.9)]">
+                    Max cue length
+                    <select
+                      value={captionOptions.maxDuration}
+                      onChange={(event) => setCaptionOptions((prev) => ({ ...prev, maxDuration: parseInt(event.target.value, 10) }))}
+                      className="rounded-xl border border-[rgba(148,163,184,0.18)] bg-[rgba(2,6,23,0.75)] px-3 py-2 text-sm text-white outline-none"
+                    >
+                      {[3000, 4000, 5000, 6000, 7000].map((duration) => (
+                        <option key={duration} value={duration}>
+                          {duration / 1000}s
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button className="button-outline" onClick={() => handleCaptionExport("srt")} disabled={mode !== "text"}>
+                    SRT
+                  </button>
+                  <button className="button-outline" onClick={() => handleCaptionExport("vtt")} disabled={mode !== "text"}>
+                    WebVTT
+                  </button>
+                  <button className="button-outline" onClick={() => handleCaptionExport("json")} disabled={mode !== "text"}>
+                    Word JSON
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex w-full flex-wrap items-end gap-3 rounded-2xl border border-[rgba(148,163,184,0.15)] bg-[rgba(2,6,23,0.55)] px-4 py-3">
+                <label className="flex items-center gap-2 self-center text-xs text-[rgba(148,163,184,0.9)]">
+                  <input
+                    type="checkbox"
+                    checked={captionStyle.enabled}
+                    onChange={(event) => updateCaptionStyle({ enabled: event.target.checked })}
+                  />
+                  Burn in captions
+                </label>
+                <label className="flex flex-col gap-1 text-xs text-[rgba(148,163,184,0.9)]">
+                  Position
+                  <select
+                    value={captionStyle.position}
+                    onChange={(event) => updateCaptionStyle({ position: event.target.value as CaptionPosition })}
+                    className="rounded-xl border border-[rgba(148,163,184,0.18)] bg-[rgba(2,6,23,0.75)] px-3 py-2 text-sm text-white outline-none"
+                  >
+                    <option value="top">Top</option>
+                    <option value="middle">Middle</option>
+                    <option value="bottom">Bottom</option>
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1 text-xs text-[rgba(148,163,184,0.9)]">
+                  Font size · {captionStyle.fontSize}px
+                  <input
+                    type="range"
+                    min="16"
+                    max="44"
+                    step="1"
+                    value={captionStyle.fontSize}
+                    onChange={(event) => updateCaptionStyle({ fontSize: parseInt(event.target.value, 10) })}
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-xs text-[rgba(148,163,184,0.9)]">
+                  Safe margin · {captionStyle.margin}px
+                  <input
+                    type="range"
+                    min="0"
+                    max="96"
+                    step="4"
+                    value={captionStyle.margin}
+                    onChange={(event) => updateCaptionStyle({ margin: parseInt(event.target.value, 10) })}
+                  />
+                </label>
+                <label className="flex flex-col items-center gap-1 text-xs text-[rgba(148,163,184,0.9)]">
+                  Text
+                  <input
+                    type="color"
+                    value={captionStyle.color}
+                    onChange={(event) => updateCaptionStyle({ color: event.target.value })}
+                    className="h-8 w-10 cursor-pointer rounded border border-[rgba(148,163,184,0.25)] bg-transparent"
+                  />
+                </label>
+                <label className="flex flex-col items-center gap-1 text-xs text-[rgba(148,163,184,0.9)]">
+                  Active word
+                  <input
+                    type="color"
+                    value={captionStyle.highlight}
+                    onChange={(event) => updateCaptionStyle({ highlight: event.target.value })}
+                    className="h-8 w-10 cursor-pointer rounded border border-[rgba(148,163,184,0.25)] bg-transparent"
+                  />
+                </label>
+              </div>
             </div>
 
             <div className="metrics-grid">
@@ -548,7 +2329,7 @@ export default function Home() {
               </div>
               <div className="metric-card">
                 <span>Mode</span>
-                <strong>{mode === "text" ? "Text" : "Audio"}</strong>
+                <strong>{mode === "text" ? "Text" : mode === "mic" ? "Mic" : "Audio"}</strong>
               </div>
               <div className="metric-card">
                 <span>Preview</span>
@@ -567,7 +2348,7 @@ export default function Home() {
                 <div>
                   <h3 style={{ fontSize: "20px", fontWeight: 600 }}>Input Controller</h3>
                   <p style={{ color: "var(--muted)", marginTop: 4 }}>
-                    Switch between text narration or audio upload. Text mode uses speech synthesis, audio mode performs direct lip-sync.
+                    Switch between text narration, audio upload or a live microphone. Text mode uses speech synthesis, audio and mic modes perform direct lip-sync.
                   </p>
                 </div>
                 <div
@@ -579,7 +2360,7 @@ export default function Home() {
                     fontSize: "13px",
                   }}
                 >
-                  {mode === "text" ? "Text-to-Speech" : "Audio-to-Speech"}
+                  {mode === "text" ? "Text-to-Speech" : mode === "mic" ? "Mic-to-Avatar" : "Audio-to-Speech"}
                 </div>
               </header>
 
@@ -602,6 +2383,15 @@ export default function Home() {
                 >
                   Audio Upload
                 </button>
+                <button
+                  className={clsx("flex-1 rounded-2xl px-4 py-3 text-sm font-semibold transition", {
+                    "bg-[rgba(96,165,250,0.16)] text-white": mode === "mic",
+                    "text-[rgba(226,232,240,0.65)]": mode !== "mic",
+                  })}
+                  onClick={() => setMode("mic")}
+                >
+                  Live Mic
+                </button>
               </div>
 
               {mode === "text" ? (
@@ -615,7 +2405,144 @@ export default function Home() {
                       placeholder="Type a narration or paste your script"
                       className="rounded-2xl border border-[rgba(148,163,184,0.18)] bg-[rgba(2,6,23,0.75)] px-4 py-3 text-base text-white outline-none transition focus:border-[rgba(96,165,250,0.5)]"
                     />
+                    <span className="text-xs text-[rgba(148,163,184,0.7)]">
+                      Speakers: ALEX: … / SAM: … · Inline cues: [happy] [sad:0.6] [pause 800ms] [wave] [nod] [shake] [shrug] [open-palms]
+                      [point-left] [point-right]
+                      {' · SSML: <break time="500ms"/> <emphasis> <prosody rate="slow" pitch="+10%"> <say-as interpret-as="date">'}
+                    </span>
                   </label>
+                  <label className="flex items-center gap-2 text-xs text-[rgba(148,163,184,0.9)]">
+                    <input type="checkbox" checked={autoGestures} onChange={(event) => setAutoGestures(event.target.checked)} />
+                    Automatic gestures (nod on new sentences, open palms on questions)
+                  </label>
+                  <label className="flex items-center gap-2 text-xs text-[rgba(148,163,184,0.9)]">
+                    <input type="checkbox" checked={autoSentiment} onChange={(event) => setAutoSentiment(event.target.checked)} />
+                    Tag each sentence with an emotion (neutral sentences keep the Emotional Direction)
+                  </label>
+                  {dialogue && (
+                    <div className="flex flex-col gap-3 rounded-2xl border border-[rgba(96,165,250,0.2)] bg-[rgba(15,23,42,0.65)] p-4">
+                      <div className="flex items-center justify-between">
+                        <strong className="text-sm text-white">Cast · {dialogue.speakers.length} speakers</strong>
+                        <div className="flex gap-2">
+                          {(["side", "turns"] as SceneLayout[]).map((layout) => (
+                            <button
+                              key={layout}
+                              onClick={() => setSceneLayout(layout)}
+                              className={clsx(
+                                "rounded-full px-3 py-1 text-xs",
+                                sceneLayout === layout
+                                  ? "bg-[rgba(37,99,235,0.35)] text-white"
+                                  : "text-[rgba(148,163,184,0.9)]",
+                              )}
+                            >
+                              {layout === "side" ? "Side by side" : "Turns"}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      {dialogue.speakers.map((speaker) => (
+                        <div key={speaker} className="grid grid-cols-[80px_1fr_1fr] items-center gap-2">
+                          <span className="truncate text-xs font-semibold text-white">{speaker}</span>
+                          <select
+                            value={resolvedCast[speaker]?.avatarId}
+                            onChange={(event) =>
+                              setSpeakerCast((prev) => ({
+                                ...prev,
+                                [speaker]: { ...resolvedCast[speaker], avatarId: event.target.value },
+                              }))
+                            }
+                            className="rounded-xl border border-[rgba(148,163,184,0.18)] bg-[rgba(2,6,23,0.75)] px-2 py-2 text-xs text-white outline-none"
+                            aria-label={`${speaker} avatar`}
+                          >
+                            {deckStyles.map((avatar) => (
+                              <option key={avatar.id} value={avatar.id}>
+                                {avatar.label}
+                              </option>
+                            ))}
+                          </select>
+                          <select
+                            value={resolvedCast[speaker]?.voiceName ?? ""}
+                            onChange={(event) =>
+                              setSpeakerCast((prev) => ({
+                                ...prev,
+                                [speaker]: { ...resolvedCast[speaker], voiceName: event.target.value || null },
+                              }))
+                            }
+                            className="rounded-xl border border-[rgba(148,163,184,0.18)] bg-[rgba(2,6,23,0.75)] px-2 py-2 text-xs text-white outline-none"
+                            aria-label={`${speaker} voice`}
+                          >
+                            {availableVoices.map((voice) => (
+                              <option key={voice.name} value={voice.name}>
+                                {voice.name.replace(/\(.*\)/g, "").trim()} · {voice.lang}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {scriptCues.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {scriptCues.map((cue, index) => (
+                        <span key={`${cue.kind}-${index}`} className="tag">
+                          {describeCue(cue)} · word {cue.tokenIndex + 1}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {sentenceTags.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {sentenceTags.map((tag) => (
+                        <span
+                          key={`${tag.from}-${tag.key}`}
+                          title={tag.text}
+                          className={clsx(
+                            "flex items-center gap-2 rounded-full border px-3 py-1 text-xs",
+                            tag.source === "edited"
+                              ? "border-[rgba(96,165,250,0.6)] bg-[rgba(37,99,235,0.2)] text-white"
+                              : "border-[rgba(148,163,184,0.2)] text-[rgba(148,163,184,0.9)]",
+                          )}
+                        >
+                          <span className="max-w-[10rem] truncate">{tag.text}</span>
+                          {tag.source === "scripted" ? (
+                            <span>{tag.emotion} cue</span>
+                          ) : (
+                            <>
+                              <select
+                                value={tag.emotion}
+                                onChange={(event) =>
+                                  editSentenceTag(tag.key, { emotion: event.target.value as Emotion, intensity: tag.intensity })
+                                }
+                                className="rounded-full bg-[rgba(2,6,23,0.75)] px-2 py-0.5 text-xs text-white outline-none"
+                              >
+                                {emotions.map((item) => (
+                                  <option key={item.id} value={item.id}>
+                                    {item.label}
+                                  </option>
+                                ))}
+                              </select>
+                              <input
+                                type="range"
+                                min="0.1"
+                                max="1"
+                                step="0.05"
+                                value={tag.intensity}
+                                onChange={(event) =>
+                                  editSentenceTag(tag.key, { emotion: tag.emotion, intensity: parseFloat(event.target.value) })
+                                }
+                                className="w-14"
+                              />
+                              {tag.source === "edited" && (
+                                <button onClick={() => editSentenceTag(tag.key, null)} title="Back to the automatic tag">
+                                  ↺
+                                </button>
+                              )}
+                            </>
+                          )}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                   <div className="grid grid-cols-2 gap-3">
                     <label className="flex flex-col gap-2 text-sm text-[rgba(148,163,184,0.9)]">
                       Voice Model
@@ -659,6 +2586,40 @@ export default function Home() {
                     </div>
                   </div>
                 </div>
+              ) : mode === "mic" ? (
+                <div className="flex flex-col gap-4">
+                  <div className="grid grid-cols-2 gap-3">
+                    <label className="flex flex-col gap-2 text-sm text-[rgba(148,163,184,0.9)]">
+                      Noise Gate
+                      <input
+                        type="range"
+                        min="0"
+                        max="0.4"
+                        step="0.01"
+                        value={micGate}
+                        onChange={(event) => setMicGate(parseFloat(event.target.value))}
+                      />
+                      <span style={{ fontSize: "12px", color: "var(--muted)" }}>{Math.round(micGate * 100)}% floor</span>
+                    </label>
+                    <label className="flex flex-col gap-2 text-sm text-[rgba(148,163,184,0.9)]">
+                      Sensitivity
+                      <input
+                        type="range"
+                        min="0.5"
+                        max="3"
+                        step="0.1"
+                        value={micSensitivity}
+                        onChange={(event) => setMicSensitivity(parseFloat(event.target.value))}
+                      />
+                      <span style={{ fontSize: "12px", color: "var(--muted)" }}>{micSensitivity.toFixed(1)}x</span>
+                    </label>
+                  </div>
+                  <div className="rounded-2xl border border-[rgba(148,163,184,0.2)] bg-[rgba(15,23,42,0.45)] px-4 py-3 text-sm text-[rgba(148,163,184,0.9)]">
+                    {isPreviewing
+                      ? "Listening. Raise the gate if the avatar reacts to background noise."
+                      : "Click “Generate & Preview” to start puppeteering from your microphone. Stop ends the session."}
+                  </div>
+                </div>
               ) : (
                 <div className="flex flex-col gap-4">
                   <label className="flex flex-col gap-3 text-sm text-[rgba(148,163,184,0.9)]">
@@ -674,7 +2635,9 @@ export default function Home() {
                     <div className="rounded-2xl border border-[rgba(96,165,250,0.2)] bg-[rgba(15,23,42,0.6)] px-4 py-3 text-sm">
                       <strong>{audioFileName}</strong>
                       <p style={{ color: "var(--muted)", marginTop: 4 }}>
-                        Ready for lip-sync preview. Click “Generate & Preview” to animate.
+                        {audioTrack
+                          ? `Analyzed ${(audioTrack.duration / 1000).toFixed(1)}s · ${audioTrack.frames.length} frames. Click “Generate & Preview” to animate.`
+                          : "Waveform analysis pending. Preview falls back to the live analyser until it is ready."}
                       </p>
                     </div>
                   ) : (
@@ -682,9 +2645,123 @@ export default function Home() {
                       No file selected yet.
                     </div>
                   )}
+                  {moodPhrases.length > 0 && (
+                    <div className="flex flex-col gap-3 rounded-2xl border border-[rgba(96,165,250,0.2)] bg-[rgba(15,23,42,0.65)] p-4">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <label className="flex items-center gap-2 text-sm text-white">
+                          <input type="checkbox" checked={autoMood} onChange={(event) => setAutoMood(event.target.checked)} />
+                          Emotion from voice · {moodPhrases.length} phrases
+                        </label>
+                        <button
+                          className="text-xs text-[rgba(96,165,250,0.9)]"
+                          onClick={() => acceptMoods()}
+                          disabled={!moodPhrases.some((phrase) => phrase.status === "proposed")}
+                        >
+                          Accept all
+                        </button>
+                      </div>
+                      <div className={clsx("flex max-h-64 flex-col gap-2 overflow-y-auto", !autoMood && "opacity-50")}>
+                        {moodPhrases.map((phrase) => (
+                          <div
+                            key={phrase.id}
+                            className="flex flex-col gap-2 rounded-xl border border-[rgba(148,163,184,0.15)] bg-[rgba(2,6,23,0.55)] px-3 py-2"
+                          >
+                            <div className="flex flex-wrap items-center gap-2 text-xs">
+                              <button
+                                className="font-semibold text-white"
+                                onClick={() => seekTo(() => phrase.start)}
+                                disabled={!transportEnabled}
+                              >
+                                {(phrase.start / 1000).toFixed(1)}–{(phrase.end / 1000).toFixed(1)}s
+                              </button>
+                              <select
+                                value={phrase.emotion}
+                                onChange={(event) => overrideMood(phrase.id, { emotion: event.target.value as Emotion })}
+                                className="rounded-lg border border-[rgba(148,163,184,0.18)] bg-[rgba(2,6,23,0.75)] px-2 py-1 text-xs text-white"
+                              >
+                                {emotions.map((item) => (
+                                  <option key={item.id} value={item.id}>
+                                    {item.label}
+                                  </option>
+                                ))}
+                              </select>
+                              <input
+                                type="range"
+                                min="0.1"
+                                max="1"
+                                step="0.05"
+                                value={phrase.intensity}
+                                onChange={(event) => overrideMood(phrase.id, { intensity: parseFloat(event.target.value) })}
+                                className="w-20"
+                              />
+                              <span className="text-[rgba(148,163,184,0.9)]">{Math.round(phrase.intensity * 100)}%</span>
+                              {phrase.status === "proposed" ? (
+                                <button className="tag" onClick={() => acceptMoods(phrase.id)}>
+                                  Accept
+                                </button>
+                              ) : phrase.status === "overridden" ? (
+                                <button className="tag" onClick={() => resetMood(phrase.id)}>
+                                  Use proposal ({phrase.proposed.emotion})
+                                </button>
+                              ) : (
+                                <span className="tag">Accepted</span>
+                              )}
+                            </div>
+                            <span className="text-[11px] text-[rgba(148,163,184,0.7)]">{describeProsody(phrase.features)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
 
+              <div className="flex flex-col gap-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-semibold tracking-wide text-[rgba(148,163,184,0.9)]">
+                    Motion Smoothing
+                  </span>
+                  <button className="text-xs text-[rgba(96,165,250,0.9)]" onClick={() => setMotionSettings(defaultMotionSettings())}>
+                    Reset
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  {motionChannels.map((channel) => (
+                    <div
+                      key={channel}
+                      className="flex flex-col gap-2 rounded-2xl border border-[rgba(148,163,184,0.15)] bg-[rgba(2,6,23,0.55)] px-4 py-3"
+                    >
+                      <strong className="text-xs text-white">{motionChannelLabels[channel]}</strong>
+                      <label className="flex flex-col gap-1 text-xs text-[rgba(148,163,184,0.9)]">
+                        Stiffness · {motionSettings[channel].stiffness}
+                        <input
+                          type="range"
+                          min={STIFFNESS_RANGE.min}
+                          max={STIFFNESS_RANGE.max}
+                          step="10"
+                          value={motionSettings[channel].stiffness}
+                          onChange={(event) => updateMotionSettings(channel, { stiffness: parseFloat(event.target.value) })}
+                        />
+                      </label>
+                      <label className="flex flex-col gap-1 text-xs text-[rgba(148,163,184,0.9)]">
+                        Damping · {motionSettings[channel].damping.toFixed(2)}
+                        <input
+                          type="range"
+                          min={DAMPING_RANGE.min}
+                          max={DAMPING_RANGE.max}
+                          step="0.05"
+                          value={motionSettings[channel].damping}
+                          onChange={(event) => updateMotionSettings(channel, { damping: parseFloat(event.target.value) })}
+                        />
+                      </label>
+                    </div>
+                  ))}
+                </div>
+                <span className="text-xs text-[rgba(148,163,184,0.7)]">
+                  Damping 1 settles without overshoot. Seeking and scrubbing always show the exact frame.
+                </span>
+              </div>
+
               <div className="flex flex-col gap-3">
                 <span className="text-sm font-semibold tracking-wide text-[rgba(148,163,184,0.9)]">
                   Emotional Direction
@@ -724,12 +2801,13 @@ export default function Home() {
               </header>
 
               <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
-                {avatarStyles.map((avatar) => (
+                {deckStyles.map((avatar) => (
                   <button
                     key={avatar.id}
                     onClick={() => {
                       setSelectedAvatarId(avatar.id);
                       setImagePreview(null);
+                      setIsCalibrating(false);
                     }}
                     className={clsx(
                       "relative flex h-28 w-full flex-col gap-2 overflow-hidden rounded-2xl border p-4 text-left transition",
@@ -745,10 +2823,132 @@ export default function Home() {
                       className="absolute right-3 top-3 h-10 w-10 rounded-full border border-[rgba(255,255,255,0.35)]"
                       style={{ background: avatar.accent }}
                     />
+                    {isCustomStyle(avatar.id) && (
+                      <span className="tag absolute bottom-3 right-3" style={{ fontSize: "11px" }}>
+                        Custom
+                      </span>
+                    )}
                   </button>
                 ))}
               </div>
 
+              <div className="flex flex-wrap items-center gap-3">
+                <button
+                  className="button-outline"
+                  onClick={() => setStyleDraft(createCustomStyle(avatarStyles[0], "New Presenter"))}
+                  disabled={!!styleDraft}
+                >
+                  New Style
+                </button>
+                <button className="button-outline" onClick={() => setStyleDraft(createCustomStyle(avatarStyle))} disabled={!!styleDraft}>
+                  Clone {avatarStyle.label}
+                </button>
+                {isCustomStyle(avatarStyle.id) && (
+                  <>
+                    <button className="button-outline" onClick={() => setStyleDraft({ ...avatarStyle })} disabled={!!styleDraft}>
+                      Edit
+                    </button>
+                    <button className="button-outline" onClick={() => handleDeleteStyle(avatarStyle.id)}>
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+
+              {styleError && <p className="text-xs text-[rgba(248,113,113,0.9)]">{styleError}</p>}
+
+              {styleDraft && (
+                <div className="flex flex-col gap-4 rounded-2xl border border-[rgba(96,165,250,0.2)] bg-[rgba(15,23,42,0.65)] p-4">
+                  <div className="flex items-center justify-between">
+                    <strong className="text-sm">Style Designer</strong>
+                    <span className="text-xs text-[rgba(148,163,184,0.8)]">Previewing on stage</span>
+                  </div>
+                  <input
+                    value={styleDraft.label}
+                    onChange={(event) => updateStyleDraft({ label: event.target.value })}
+                    placeholder="Presenter name"
+                    className="rounded-xl border border-[rgba(148,163,184,0.18)] bg-[rgba(2,6,23,0.75)] px-3 py-3 text-sm text-white outline-none focus:border-[rgba(96,165,250,0.5)]"
+                  />
+                  <input
+                    value={styleDraft.description}
+                    onChange={(event) => updateStyleDraft({ description: event.target.value })}
+                    placeholder="Short description"
+                    className="rounded-xl border border-[rgba(148,163,184,0.18)] bg-[rgba(2,6,23,0.75)] px-3 py-3 text-sm text-white outline-none focus:border-[rgba(96,165,250,0.5)]"
+                  />
+                  <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+                    {styleColors.map(({ key, label }) => (
+                      <label key={key} className="flex items-center gap-2 text-xs text-[rgba(148,163,184,0.9)]">
+                        <input
+                          type="color"
+                          value={styleDraft[key]}
+                          onChange={(event) => updateStyleDraft({ [key]: event.target.value } as Pick<AvatarStyle, StyleColor>)}
+                          className="h-8 w-10 cursor-pointer rounded border border-[rgba(148,163,184,0.25)] bg-transparent"
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                  <div className="flex items-center justify-end gap-3">
+                    <button
+                      className="button-outline"
+                      onClick={() => {
+                        setStyleDraft(null);
+                        setStyleError(null);
+                      }}
+                    >
+                      Cancel
+                    </button>
+                    <button className="button-primary" onClick={handleSaveStyle}>
+                      Save Style
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex flex-col gap-3">
+                <span className="text-xs uppercase tracking-wide text-[rgba(148,163,184,0.7)]">Background</span>
+                <div className="flex flex-wrap gap-2">
+                  {backgroundKinds.map(({ kind, label }) => (
+                    <button
+                      key={kind}
+                      onClick={() => setBackgroundKind(kind)}
+                      disabled={kind === "media" && !backgroundMedia}
+                      className={clsx(
+                        "rounded-full border border-[rgba(148,163,184,0.2)] px-3 py-1 text-xs disabled:opacity-40",
+                        backgroundKind === kind ? "bg-[rgba(37,99,235,0.35)] text-white" : "text-[rgba(148,163,184,0.9)]",
+                      )}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                  {backgroundKind === "solid" && (
+                    <label className="flex items-center gap-2 text-xs text-[rgba(148,163,184,0.9)]">
+                      <input
+                        type="color"
+                        value={backgroundColor}
+                        onChange={(event) => setBackgroundColor(event.target.value)}
+                        className="h-8 w-10 cursor-pointer rounded border border-[rgba(148,163,184,0.25)] bg-transparent"
+                      />
+                      Colour
+                    </label>
+                  )}
+                  <label className="button-outline">
+                    Upload Image / Video
+                    <input type="file" accept="image/*,video/*" onChange={handleBackgroundUpload} hidden />
+                  </label>
+                  {backgroundMedia && (
+                    <span className="text-xs text-[rgba(148,163,184,0.8)]">{backgroundMedia.name}</span>
+                  )}
+                </div>
+                {backgroundKind === "transparent" && !exportPresets[exportFormat].hasAlpha && (
+                  <p className="text-xs text-[rgba(250,204,21,0.85)]">
+                    {exportPresets[exportFormat].label} cannot store transparency; render WebM or a PNG sequence.
+                  </p>
+                )}
+              </div>
+
               {imagePreview && (
                 <div className="flex items-center gap-4 rounded-2xl border border-[rgba(96,165,250,0.2)] bg-[rgba(15,23,42,0.65)] p-4">
                   <Image
@@ -759,12 +2959,204 @@ export default function Home() {
                     className="h-16 w-16 rounded-2xl object-cover"
                     unoptimized
                   />
-                  <div>
+                  <div className="flex-1">
                     <strong className="text-sm">Custom Portrait</strong>
                     <p className="text-xs text-[rgba(148,163,184,0.8)]">
-                      Using uploaded image. Select a preset to switch back to procedural avatar.
+                      {isCalibrating
+                        ? "Drag the anchors on the stage onto the eyes, mouth corners and chin line."
+                        : "Using uploaded image. Select a preset to switch back to procedural avatar."}
                     </p>
                   </div>
+                  <div className="flex flex-col gap-2">
+                    {isCalibrating ? (
+                      <>
+                        <button className="button-primary" onClick={() => setIsCalibrating(false)}>
+                          Done
+                        </button>
+                        <button className="button-outline" onClick={() => setPortraitLandmarks(defaultLandmarks)}>
+                          Reset
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        className="button-outline"
+                        onClick={() => {
+                          setPortraitLandmarks((prev) => prev ?? defaultLandmarks);
+                          setIsCalibrating(true);
+                        }}
+                      >
+                        Calibrate
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </section>
+
+            <section className="card flex flex-col gap-6 p-7">
+              <header className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                  <h3 style={{ fontSize: "20px", fontWeight: 600 }}>Projects</h3>
+                  <p style={{ color: "var(--muted)", marginTop: 4 }}>
+                    Save the whole session — script, voice, avatar, portrait and audio — and pick it up later.
+                  </p>
+                </div>
+                <label className="button-outline">
+                  Open File
+                  <input type="file" accept=".json,application/json" onChange={handleOpenProjectFile} hidden />
+                </label>
+              </header>
+
+              <div className="flex flex-col gap-3">
+                <input
+                  value={projectName}
+                  onChange={(event) => setProjectName(event.target.value)}
+                  placeholder="Project name"
+                  className="rounded-xl border border-[rgba(148,163,184,0.18)] bg-[rgba(2,6,23,0.75)] px-3 py-3 text-sm text-white outline-none focus:border-[rgba(96,165,250,0.5)]"
+                />
+                <div className="flex flex-wrap items-center gap-3">
+                  <button className="button-primary" onClick={handleSaveProject}>
+                    Save to Browser
+                  </button>
+                  <button className="button-outline" onClick={handleDownloadProject}>
+                    Download .json
+                  </button>
+                  <label className="flex items-center gap-2 text-xs text-[rgba(148,163,184,0.9)]">
+                    <input type="checkbox" checked={embedMedia} onChange={(event) => setEmbedMedia(event.target.checked)} />
+                    Embed media in file
+                  </label>
+                </div>
+              </div>
+
+              {recentProjects.length > 0 && (
+                <div className="flex flex-col gap-2">
+                  <span className="text-xs uppercase tracking-wide text-[rgba(148,163,184,0.7)]">Recent</span>
+                  {recentProjects.map((recent) => (
+                    <div
+                      key={recent.id}
+                      className={clsx(
+                        "flex items-center justify-between gap-3 rounded-2xl border px-4 py-3",
+                        recent.id === projectId
+                          ? "border-[rgba(96,165,250,0.5)] bg-[rgba(37,99,235,0.12)]"
+                          : "border-[rgba(148,163,184,0.15)] bg-[rgba(2,6,23,0.65)]",
+                      )}
+                    >
+                      <button className="flex flex-1 flex-col text-left" onClick={() => handleOpenRecent(recent.id)}>
+                        <span className="text-sm font-semibold text-white">{recent.name}</span>
+                        <span className="text-xs text-[rgba(148,163,184,0.8)]">
+                          {new Date(recent.savedAt).toLocaleString()}
+                        </span>
+                      </button>
+                      <button
+                        className="text-xs text-[rgba(148,163,184,0.8)] hover:text-white"
+                        onClick={() => handleDeleteRecent(recent.id)}
+                        aria-label={`Remove ${recent.name}`}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            <section className="card flex flex-col gap-6 p-7">
+              <header className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                  <h3 style={{ fontSize: "20px", fontWeight: 600 }}>Batch Render</h3>
+                  <p style={{ color: "var(--muted)", marginTop: 4 }}>
+                    One clip per row, rendered offline with the current export, caption and background settings.
+                  </p>
+                </div>
+                <label className="button-outline">
+                  Import CSV / JSON
+                  <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleBatchFile} hidden />
+                </label>
+              </header>
+
+              <textarea
+                value={batchText}
+                onChange={(event) => setBatchText(event.target.value)}
+                rows={5}
+                spellCheck={false}
+                placeholder={'script,emotion,avatarId,voice,output\n"Welcome aboard!",happy,,,welcome'}
+                className="rounded-xl border border-[rgba(148,163,184,0.18)] bg-[rgba(2,6,23,0.75)] px-3 py-3 font-mono text-xs text-white outline-none focus:border-[rgba(96,165,250,0.5)]"
+              />
+
+              <div className="flex flex-wrap items-center gap-3">
+                <button className="button-outline" onClick={handleQueueBatch} disabled={isBatchRunning || !batchText.trim()}>
+                  Queue Rows
+                </button>
+                {isBatchRunning ? (
+                  <button
+                    className="button-outline"
+                    onClick={() => {
+                      batchStopRef.current = true;
+                    }}
+                  >
+                    Stop After Current
+                  </button>
+                ) : (
+                  <button
+                    className="button-primary"
+                    onClick={handleRunBatch}
+                    disabled={isRendering || !batchJobs.some((job) => job.status === "queued")}
+                  >
+                    Render {batchJobs.filter((job) => job.status === "queued").length} Queued
+                  </button>
+                )}
+                <button className="button-outline" onClick={() => handleRetryBatchJob()} disabled={!batchJobs.some((job) => job.status === "failed")}>
+                  Retry Failed
+                </button>
+                <button className="button-outline" onClick={handleDownloadBatch} disabled={!batchJobs.some((job) => job.result)}>
+                  Download Zip
+                </button>
+              </div>
+
+              {batchErrors.length > 0 && (
+                <ul className="flex flex-col gap-1 text-xs text-[rgba(248,113,113,0.9)]">
+                  {batchErrors.map((error) => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              )}
+
+              {batchJobs.length > 0 && (
+                <div className="flex flex-col gap-2">
+                  {batchJobs.map((job) => (
+                    <div
+                      key={job.id}
+                      className="flex flex-col gap-2 rounded-2xl border border-[rgba(148,163,184,0.15)] bg-[rgba(2,6,23,0.65)] px-4 py-3"
+                    >
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="flex min-w-0 flex-col">
+                          <span className="truncate text-sm font-semibold text-white">{job.row.output}</span>
+                          <span className="truncate text-xs text-[rgba(148,163,184,0.8)]">
+                            {job.row.emotion} · {job.row.script}
+                          </span>
+                        </div>
+                        {job.status === "failed" ? (
+                          <button className="text-xs text-[rgba(96,165,250,0.9)] hover:text-white" onClick={() => handleRetryBatchJob(job.id)}>
+                            Retry
+                          </button>
+                        ) : (
+                          <span className="tag" style={{ fontSize: "11px" }}>
+                            {job.status === "rendering" ? `${job.progress}%` : job.status}
+                          </span>
+                        )}
+                      </div>
+                      {job.status === "rendering" && (
+                        <div className="h-1 overflow-hidden rounded-full bg-[rgba(148,163,184,0.15)]">
+                          <div className="h-full bg-[rgba(96,165,250,0.8)]" style={{ width: `${job.progress}%` }} />
+                        </div>
+                      )}
+                      {(job.error || job.warning) && (
+                        <span className={clsx("text-xs", job.error ? "text-[rgba(248,113,113,0.9)]" : "text-[rgba(250,204,21,0.85)]")}>
+                          {job.error ?? job.warning}
+                        </span>
+                      )}
+                    </div>
+                  ))}
                 </div>
               )}
             </section>
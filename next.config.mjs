@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  experimental: {
+    // Native module used by the server render route; loaded from node_modules rather than bundled.
+    serverComponentsExternalPackages: ["@napi-rs/canvas"],
+  },
+};
 
 export default nextConfig;
@@ -0,0 +1,58 @@
+import { describe, expect, test } from "vitest";
+import { parseBatch, parseCsv } from "../app/lib/batch";
+
+describe("parseCsv", () => {
+  test("reads quoted commas, doubled quotes and newlines", () => {
+    expect(parseCsv('a,"b, c","say ""hi""","two\nlines"').map((record) => record.fields)).toEqual([
+      ["a", "b, c", 'say "hi"', "two\nlines"],
+    ]);
+  });
+
+  test("accepts CRLF and skips blank records", () => {
+    expect(parseCsv("a,b\r\n\r\nc,d\r\n")).toEqual([
+      { fields: ["a", "b"], line: 1 },
+      { fields: ["c", "d"], line: 3 },
+    ]);
+  });
+
+  test("records start on their source line", () => {
+    const records = parseCsv('script\n"one\ntwo"\n\nthree\r\n"four\r\nfive"\nsix');
+    expect(records.map((record) => record.line)).toEqual([1, 2, 5, 6, 8]);
+  });
+});
+
+describe("parseBatch", () => {
+  test("reads a CSV with a header row", () => {
+    const { rows, errors } = parseBatch("Script,Emotion,output\nHello there,happy,intro\nBye,,\n");
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      { script: "Hello there", emotion: "happy", avatarId: "", voice: "", output: "intro" },
+      { script: "Bye", emotion: "neutral", avatarId: "", voice: "", output: "clip-002" },
+    ]);
+  });
+
+  test("reads a JSON array of rows", () => {
+    const { rows } = parseBatch('[{"script": "Hi", "emotion": "sad", "output": "a b"}]');
+    expect(rows).toEqual([{ script: "Hi", emotion: "sad", avatarId: "", voice: "", output: "a-b" }]);
+  });
+
+  test("reports CSV errors by source line", () => {
+    const { rows, errors } = parseBatch('script,emotion\n"first\nline",happy\n\n,sad\nThird,gloomy\n');
+    expect(rows).toHaveLength(1);
+    expect(errors).toEqual(["Line 5: script is empty", "Line 6: unknown emotion “gloomy”"]);
+  });
+
+  test("reports JSON errors by row", () => {
+    expect(parseBatch('[{"script": "ok"}, {"script": ""}]').errors).toEqual(["Row 2: script is empty"]);
+    expect(parseBatch("[oops").errors).toEqual(["Batch JSON could not be parsed"]);
+  });
+
+  test("needs a script column", () => {
+    expect(parseBatch("text,emotion\nHi,happy").errors).toEqual(["CSV header needs a “script” column"]);
+  });
+
+  test("numbered output names skip names already taken", () => {
+    const { rows } = parseBatch("script,output\na,clip\nb,clip\nc,clip-2\nd,clip\n");
+    expect(rows.map((row) => row.output)).toEqual(["clip", "clip-2", "clip-2-2", "clip-3"]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, test } from "vitest";
+import {
+  captionFrameAt,
+  groupCaptions,
+  toSrt,
+  toWebVtt,
+  toWordJson,
+  wordTimings,
+  wrapLines,
+  type CaptionCue,
+  type WordTiming,
+} from "../app/lib/captions";
+
+// Words of `duration` ms laid end to end from `start`.
+const timed = (text: string, duration = 300, start = 0): WordTiming[] =>
+  text.split(" ").map((word, index) => ({
+    text: word,
+    start: start + index * duration,
+    end: start + (index + 1) * duration,
+  }));
+
+const cue = (start: number, end: number, lines: string[]): CaptionCue => ({ start, end, lines, words: [] });
+
+describe("wordTimings", () => {
+  test("lays words end to end and leaves holds out of the spoken part", () => {
+    expect(wordTimings(["One", "two", "three"], [300, 900, 200], [0, 600, 0])).toEqual([
+      { text: "One", start: 0, end: 300 },
+      { text: "two", start: 300, end: 600 },
+      { text: "three", start: 1200, end: 1400 },
+    ]);
+  });
+});
+
+describe("wrapLines", () => {
+  test("fills each line up to the length budget", () => {
+    expect(wrapLines(["the", "quick", "brown", "fox"], 10)).toEqual(["the quick", "brown fox"]);
+  });
+
+  test("never splits a word that is longer than a line", () => {
+    expect(wrapLines(["extraordinarily", "so"], 5)).toEqual(["extraordinarily", "so"]);
+  });
+});
+
+describe("groupCaptions", () => {
+  const options = { maxLineLength: 12, maxLines: 2, maxDuration: 6000 };
+
+  test("closes a cue at each sentence end", () => {
+    const cues = groupCaptions(timed("Hi there. How are you?"), options);
+    expect(cues.map((entry) => entry.lines)).toEqual([["Hi there."], ["How are you?"]]);
+    expect(cues[1]).toMatchObject({ start: 600, end: 1500 });
+  });
+
+  test("closes a cue before the lines overflow", () => {
+    const cues = groupCaptions(timed("one two three four five six seven eight"), options);
+    expect(cues.map((entry) => entry.lines)).toEqual([
+      ["one two", "three four"],
+      ["five six", "seven eight"],
+    ]);
+  });
+
+  test("closes a cue before it runs past the duration budget", () => {
+    const cues = groupCaptions(timed("a b c d e", 1000), { ...options, maxDuration: 2500 });
+    expect(cues.map((entry) => entry.words.length)).toEqual([2, 2, 1]);
+  });
+
+  test("closes a cue at a long pause", () => {
+    const words = [...timed("before the"), ...timed("after it", 300, 1500)];
+    expect(groupCaptions(words, options).map((entry) => entry.lines)).toEqual([["before the"], ["after it"]]);
+  });
+});
+
+describe("captionFrameAt", () => {
+  const cues = groupCaptions(timed("Hi there. How are you?"));
+
+  test("shows nothing before the first word", () => {
+    expect(captionFrameAt(cues, -1)).toBeNull();
+  });
+
+  test("tracks the word being spoken", () => {
+    expect(captionFrameAt(cues, 350)).toEqual({ words: ["Hi", "there."], active: 1 });
+    expect(captionFrameAt(cues, 1400)).toEqual({ words: ["How", "are", "you?"], active: 2 });
+  });
+
+  test("lingers after the last cue, then clears", () => {
+    expect(captionFrameAt(cues, 2000)).toEqual({ words: ["How", "are", "you?"], active: 3 });
+    expect(captionFrameAt(cues, 5000)).toBeNull();
+  });
+});
+
+describe("subtitle files", () => {
+  const cues = [cue(0, 1500.4, ["Hello", "world"]), cue(3_723_004, 3_725_999.6, ["Later"])];
+
+  test("SRT numbers cues and uses comma milliseconds", () => {
+    expect(toSrt(cues)).toBe(
+      "1\n00:00:00,000 --> 00:00:01,500\nHello\nworld\n\n2\n01:02:03,004 --> 01:02:06,000\nLater\n",
+    );
+  });
+
+  test("WebVTT has a header and dot milliseconds", () => {
+    expect(toWebVtt(cues)).toBe(
+      "WEBVTT\n\n00:00:00.000 --> 00:00:01.500\nHello\nworld\n\n01:02:03.004 --> 01:02:06.000\nLater\n",
+    );
+  });
+
+  test("word JSON rounds to whole milliseconds", () => {
+    expect(JSON.parse(toWordJson([{ text: "Hi", start: 0.4, end: 299.6 }], 1000.2))).toEqual({
+      unit: "ms",
+      duration: 1000,
+      words: [{ text: "Hi", start: 0, end: 300 }],
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, test } from "vitest";
+import { buildTextTrack, createBlinkSchedule } from "../app/lib/animation";
+import { avatarStyles } from "../app/lib/avatars";
+import {
+  activeSpeaker,
+  buildDialogue,
+  castSpeech,
+  defaultCastStyle,
+  dialogueFrameStates,
+  parseDialogue,
+} from "../app/lib/dialogue";
+import { parseScriptCues, speechChunks } from "../app/lib/scriptCues";
+
+const scene = (script: string) => {
+  const lines = parseDialogue(script);
+  if (!lines) throw new Error("expected a dialogue");
+  return buildDialogue(lines);
+};
+
+describe("parseDialogue", () => {
+  test("plain scripts are not dialogues", () => {
+    expect(parseDialogue("Hello there.\nNote: this is a monologue.")).toBeNull();
+  });
+
+  test("reads labelled lines, continuations and a preamble", () => {
+    expect(parseDialogue("Welcome.\nALEX: Hi.\nstill Alex\nSAM: Hello.")).toEqual([
+      { speaker: "ALEX", text: "Welcome.\nHi.\nstill Alex" },
+      { speaker: "SAM", text: "Hello." },
+    ]);
+  });
+
+  test("splits inline turns and drops empty ones", () => {
+    expect(parseDialogue("ALEX: Hi. / SAM: Hello.\nDR JONES:")).toEqual([
+      { speaker: "ALEX", text: "Hi." },
+      { speaker: "SAM", text: "Hello." },
+    ]);
+  });
+});
+
+describe("buildDialogue", () => {
+  test("joins turns with a pause and maps every token to its speaker", () => {
+    const dialogue = scene("ALEX: Hi [happy] there.\nSAM: Hello.\nALEX: Bye.");
+    expect(dialogue.speakers).toEqual(["ALEX", "SAM"]);
+    expect(dialogue.script).toBe("Hi [happy] there. [pause 350ms]\nHello. [pause 350ms]\nBye.");
+    expect(dialogue.tokenSpeakers).toEqual([0, 0, 1, 0]);
+    expect(dialogue.text).toBe(parseScriptCues(dialogue.script).text);
+  });
+});
+
+describe("casting", () => {
+  test("uncast speakers take the selected style, then the next ones in the deck", () => {
+    const selected = avatarStyles[1];
+    expect(defaultCastStyle(avatarStyles, selected, 0)).toBe(selected);
+    expect(defaultCastStyle(avatarStyles, selected, 1)).toBe(avatarStyles[2 % avatarStyles.length]);
+  });
+
+  test("each utterance gets its speaker's voice", () => {
+    const dialogue = scene("ALEX: Hi there.\nSAM: Hello.");
+    const chunks = castSpeech(speechChunks(parseScriptCues(dialogue.script)), dialogue, {
+      SAM: { avatarId: avatarStyles[0].id, voiceName: "Samantha" },
+    });
+    expect(chunks.map(({ text, voice }) => ({ text, voice }))).toEqual([
+      { text: "Hi there.", voice: null },
+      { text: "Hello.", voice: "Samantha" },
+    ]);
+  });
+});
+
+describe("dialogueFrameStates", () => {
+  const dialogue = scene("ALEX: [happy] Hi there.\nSAM: Hello.");
+  const track = buildTextTrack(dialogue.script, 1, 1, false);
+  const blinks = dialogue.speakers.map((_, index) => createBlinkSchedule(index + 1));
+  const samStarts = track.segments[0] + track.segments[1];
+
+  test("the speaker follows the token being spoken", () => {
+    expect(activeSpeaker(dialogue, track.segments, 0)).toBe(0);
+    expect(activeSpeaker(dialogue, track.segments, samStarts + 1)).toBe(1);
+    expect(activeSpeaker(dialogue, track.segments, track.duration + 1000)).toBe(1);
+  });
+
+  test("the active presenter talks and the other listens", () => {
+    const { active, states } = dialogueFrameStates(track, dialogue, 100, "neutral", blinks);
+    expect(active).toBe(0);
+    expect(states[0].emotion).toBe("happy");
+    expect(states[1]).toMatchObject({ timelineLabel: "Listening", audioLevel: 0, emotion: "happy" });
+  });
+
+  test("a speaker only reacts to cues on their own lines", () => {
+    const { active, states } = dialogueFrameStates(track, dialogue, samStarts + 1, "neutral", blinks);
+    expect(active).toBe(1);
+    expect(states[1].emotion).toBe("neutral");
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, test } from "vitest";
+import { buildVisemeTrack, sampleVisemeTrack, toPhonemes, visemeShapes } from "../app/lib/phonemes";
+
+describe("toPhonemes", () => {
+  test("uses the exception list for common and irregular words", () => {
+    expect(toPhonemes("The")).toEqual(["DH", "AH"]);
+    expect(toPhonemes("people,")).toEqual(["P", "IY", "P", "AH", "L"]);
+    expect(toPhonemes("don’t")).toEqual(["D", "OW", "N", "T"]);
+  });
+
+  test("falls back to spelling rules", () => {
+    expect(toPhonemes("cat")).toEqual(["K", "AE", "T"]);
+    expect(toPhonemes("make")).toEqual(["M", "EY", "K"]);
+    expect(toPhonemes("shop")).toEqual(["SH", "AA", "P"]);
+    expect(toPhonemes("ball")).toEqual(["B", "AO", "L"]);
+  });
+
+  test("reads digits one by one", () => {
+    expect(toPhonemes("42")).toEqual(["F", "AO", "R", "T", "UW"]);
+  });
+
+  test("splits hyphenated words and ignores punctuation-only tokens", () => {
+    expect(toPhonemes("so-so")).toEqual(["S", "OW", "S", "OW"]);
+    expect(toPhonemes("—")).toEqual([]);
+  });
+
+  test("only the exception table's own keys count", () => {
+    expect(toPhonemes("constructor")).not.toContain(undefined);
+    expect(toPhonemes("constructor").length).toBeGreaterThan(5);
+  });
+});
+
+describe("buildVisemeTrack", () => {
+  test("fills each token's segment and ends it with a rest", () => {
+    const segments = [400, 600];
+    const track = buildVisemeTrack(["mama", "hi."], segments);
+    const total = track.reduce((acc, cue) => acc + cue.duration, 0);
+    expect(total).toBeCloseTo(1000);
+    expect(track[0]).toMatchObject({ viseme: "MBP", start: 0, tokenIndex: 0 });
+    const lastOfFirst = track.filter((cue) => cue.tokenIndex === 0).pop();
+    expect(lastOfFirst).toMatchObject({ viseme: "rest" });
+    expect(track.find((cue) => cue.tokenIndex === 1)?.start).toBeCloseTo(400);
+  });
+
+  test("holds extend the trailing rest instead of the word", () => {
+    const plain = buildVisemeTrack(["go"], [300]);
+    const held = buildVisemeTrack(["go"], [1300], [1000]);
+    const speech = (track: typeof plain) =>
+      track.filter((cue) => cue.viseme !== "rest").reduce((acc, cue) => acc + cue.duration, 0);
+    expect(speech(held)).toBeCloseTo(speech(plain));
+    expect(held[held.length - 1].duration).toBeGreaterThan(1000);
+  });
+
+  test("tokens without phonemes are silent", () => {
+    expect(buildVisemeTrack(["—"], [300]).every((cue) => cue.viseme === "rest")).toBe(true);
+  });
+});
+
+describe("sampleVisemeTrack", () => {
+  test("an empty track is at rest", () => {
+    expect(sampleVisemeTrack([], 100)).toEqual({ ...visemeShapes.rest, viseme: "rest" });
+  });
+
+  test("blends from the previous shape into the active one", () => {
+    const track = buildVisemeTrack(["ah"], [1000]);
+    const open = track.find((cue) => cue.viseme === "AA");
+    expect(open).toBeDefined();
+    const start = sampleVisemeTrack(track, open!.start);
+    const settled = sampleVisemeTrack(track, open!.start + open!.duration * 0.9);
+    expect(start.openness).toBeCloseTo(visemeShapes.rest.openness);
+    expect(settled.openness).toBeCloseTo(visemeShapes.AA.openness);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, test } from "vitest";
+import {
+  PROJECT_FORMAT,
+  PROJECT_VERSION,
+  defaultProjectSettings,
+  parseProject,
+  projectFileName,
+  readProjectFile,
+} from "../app/lib/project";
+
+const saved = (settings: Record<string, unknown> = {}, extra: Record<string, unknown> = {}) => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  id: "p1",
+  name: "Launch video",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  savedAt: "2024-01-02T00:00:00.000Z",
+  settings,
+  ...extra,
+});
+
+describe("parseProject", () => {
+  test("rejects anything that is not a project", () => {
+    expect(() => parseProject(null, defaultProjectSettings())).toThrow("Not a LipForge project file");
+    expect(() => parseProject({ format: "other" }, defaultProjectSettings())).toThrow("Not a LipForge project file");
+  });
+
+  test("rejects projects from a newer studio", () => {
+    expect(() => parseProject(saved({}, { version: PROJECT_VERSION + 1 }), defaultProjectSettings())).toThrow(
+      /newer than this studio supports/,
+    );
+  });
+
+  test("fills missing settings from the defaults", () => {
+    const defaults = { ...defaultProjectSettings(), script: "Default script" };
+    const project = parseProject(saved(), defaults);
+    expect(project).toMatchObject({ id: "p1", name: "Launch video", savedAt: "2024-01-02T00:00:00.000Z" });
+    expect(project.settings).toEqual(defaults);
+    expect(project.media).toEqual({ portrait: null, audio: null, background: null });
+  });
+
+  test("keeps valid settings and replaces malformed ones", () => {
+    const { settings } = parseProject(
+      saved({
+        script: "Hello",
+        emotion: "happy",
+        mode: "karaoke",
+        speechRate: 9,
+        backgroundKind: "solid",
+        backgroundColor: "red",
+        sceneLayout: "turns",
+        captionStyle: { enabled: true, fontSize: 100, color: "#ffffff" },
+      }),
+      defaultProjectSettings(),
+    );
+    const defaults = defaultProjectSettings();
+    expect(settings).toMatchObject({
+      script: "Hello",
+      emotion: "happy",
+      mode: defaults.mode,
+      speechRate: 1.4,
+      backgroundKind: "solid",
+      backgroundColor: defaults.backgroundColor,
+      sceneLayout: "turns",
+    });
+    expect(settings.captionStyle).toMatchObject({ enabled: true, fontSize: 44, color: "#ffffff" });
+  });
+
+  test("reads sentiment overrides, cast and mood phrases", () => {
+    const { settings } = parseProject(
+      saved({
+        sentimentOverrides: { "we won": { emotion: "happy", intensity: 2 }, constructor: { emotion: "bored" } },
+        speakerCast: { Ana: { avatarId: "nova", voiceName: 3 }, Bo: { voiceName: "x" } },
+        moodPhrases: [{ start: 500, end: 100, emotion: "sad", intensity: 0.4 }, { emotion: "bored" }],
+      }),
+      defaultProjectSettings(),
+    );
+    expect({ ...settings.sentimentOverrides }).toEqual({ "we won": { emotion: "happy", intensity: 1 } });
+    expect(settings.speakerCast).toEqual({ Ana: { avatarId: "nova", voiceName: null } });
+    expect(settings.moodPhrases).toHaveLength(1);
+    expect(settings.moodPhrases[0]).toMatchObject({ id: 1, start: 500, end: 500, emotion: "sad", status: "proposed" });
+  });
+
+  test("keeps embedded media and only http(s) references", () => {
+    const { media } = parseProject(
+      saved(
+        {},
+        {
+          media: {
+            portrait: { kind: "embedded", name: "me.png", mimeType: "image/png", dataUrl: "data:image/png;base64,AA==" },
+            audio: { kind: "reference", name: "take.wav", url: "blob:http://localhost/123" },
+            background: { kind: "embedded", name: "bg", dataUrl: "https://example.com/bg.png" },
+          },
+        },
+      ),
+      defaultProjectSettings(),
+    );
+    expect(media.portrait).toEqual({
+      kind: "embedded",
+      name: "me.png",
+      mimeType: "image/png",
+      dataUrl: "data:image/png;base64,AA==",
+    });
+    expect(media.audio).toEqual({ kind: "reference", name: "take.wav", url: null });
+    expect(media.background).toBeNull();
+  });
+});
+
+describe("readProjectFile", () => {
+  test("reports invalid JSON", () => {
+    expect(() => readProjectFile("{", defaultProjectSettings())).toThrow("Project file is not valid JSON");
+  });
+
+  test("round-trips a saved project", () => {
+    const project = parseProject(saved({ script: "Hi" }), defaultProjectSettings());
+    expect(readProjectFile(JSON.stringify(project), defaultProjectSettings())).toEqual(project);
+  });
+});
+
+describe("projectFileName", () => {
+  test("slugs the project name", () => {
+    const project = parseProject(saved({}, { name: "  My First Video!! " }), defaultProjectSettings());
+    expect(projectFileName(project)).toBe("my-first-video.lipforge.json");
+    expect(projectFileName({ ...project, name: "???" })).toBe("project.lipforge.json");
+  });
+});
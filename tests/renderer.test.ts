@@ -0,0 +1,178 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { createCanvas, type Canvas, type SKRSContext2D } from "@napi-rs/canvas";
+import pixelmatch from "pixelmatch";
+import { PNG } from "pngjs";
+import { describe, expect, test } from "vitest";
+import { avatarStyles, defaultVisualState, type AvatarVisualState, type Emotion } from "../app/lib/avatars";
+import { gestureDuration, restPose, sampleGesture, type Gesture } from "../app/lib/gestures";
+import { defaultLandmarks } from "../app/lib/portrait";
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  renderAvatarFrame,
+  renderSceneFrame,
+  type Canvas2DContext,
+  type RenderOptions,
+} from "../app/lib/renderer";
+
+// Goldens live next to this file; mismatches write the actual frame and a diff under tmp/.
+const GOLDEN_DIR = path.join(__dirname, "golden");
+const FAILURE_DIR = path.join(__dirname, "..", "tmp", "golden");
+// Half the stage size keeps the PNGs small while still showing every feature.
+const SIZE = CANVAS_WIDTH / 2;
+// pixelmatch's per-pixel colour threshold, then how many pixels may still differ, which absorbs
+// anti-aliasing differences between Skia builds. Strict enough to catch the faint emotion ring:
+// the smallest real change between two goldens (a rounder mouth) moves about a hundred pixels.
+const COLOR_THRESHOLD = 0.03;
+const MAX_CHANGED_PIXELS = 16;
+
+// Glyphs depend on the fonts a machine has installed, so text is left out of the frames and the
+// goldens cover shapes only.
+const withoutText = (ctx: SKRSContext2D) =>
+  new Proxy(ctx, {
+    get(target, key) {
+      if (key === "fillText") return () => undefined;
+      const value = Reflect.get(target, key, target);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+    set: (target, key, value) => Reflect.set(target, key, value, target),
+  });
+
+function draw(paint: (ctx: Canvas2DContext<Canvas>) => void) {
+  const canvas = createCanvas(SIZE, SIZE);
+  const ctx = withoutText(canvas.getContext("2d"));
+  ctx.scale(SIZE / CANVAS_WIDTH, SIZE / CANVAS_HEIGHT);
+  paint(ctx);
+  return { png: canvas.toBuffer("image/png"), pixel: (x: number, y: number) => Array.from(ctx.getImageData(x, y, 1, 1).data) };
+}
+
+const render = (patch: Partial<AvatarVisualState>, options: RenderOptions<Canvas> = {}) =>
+  draw((ctx) => renderAvatarFrame(ctx, { ...defaultVisualState, ...patch }, avatarStyles[0], options)).png;
+
+// A flat stand-in photo with the features where the default landmarks expect them.
+function drawPortrait() {
+  const canvas = createCanvas(256, 256);
+  const ctx = canvas.getContext("2d");
+  ctx.fillStyle = "#475569";
+  ctx.fillRect(0, 0, 256, 256);
+  ctx.fillStyle = "#d6a07c";
+  ctx.beginPath();
+  ctx.ellipse(128, 150, 84, 104, 0, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = "#1e293b";
+  [0.38, 0.62].forEach((x) => {
+    ctx.beginPath();
+    ctx.arc(x * 256, 0.42 * 256, 9, 0, Math.PI * 2);
+    ctx.fill();
+  });
+  ctx.fillStyle = "#9f1239";
+  ctx.fillRect(0.43 * 256, 0.65 * 256, 0.14 * 256, 6);
+  return canvas;
+}
+
+function drawBackdrop() {
+  const canvas = createCanvas(320, 180);
+  const ctx = canvas.getContext("2d");
+  ["#1d4ed8", "#9333ea", "#db2777", "#f59e0b"].forEach((color, index) => {
+    ctx.fillStyle = color;
+    ctx.fillRect(index * 80, 0, 80, 180);
+  });
+  return canvas;
+}
+
+function expectGolden(name: string, png: Buffer) {
+  const file = path.join(GOLDEN_DIR, `${name}.png`);
+  if (!existsSync(file) || process.env.UPDATE_GOLDENS) {
+    // CI never records: a missing golden there is a test that was never reviewed.
+    if (process.env.CI && !existsSync(file)) {
+      throw new Error(`Missing golden ${name}.png; run the tests locally to record it`);
+    }
+    mkdirSync(GOLDEN_DIR, { recursive: true });
+    writeFileSync(file, png);
+    return;
+  }
+  const expected = PNG.sync.read(readFileSync(file));
+  const actual = PNG.sync.read(png);
+  expect([actual.width, actual.height]).toEqual([expected.width, expected.height]);
+  const { width, height } = expected;
+  const diff = new PNG({ width, height });
+  const changed = pixelmatch(expected.data, actual.data, diff.data, width, height, { threshold: COLOR_THRESHOLD });
+  if (changed > MAX_CHANGED_PIXELS) {
+    mkdirSync(FAILURE_DIR, { recursive: true });
+    writeFileSync(path.join(FAILURE_DIR, `${name}.actual.png`), png);
+    writeFileSync(path.join(FAILURE_DIR, `${name}.diff.png`), PNG.sync.write(diff));
+  }
+  expect(changed, `${name}: ${changed} pixels differ`).toBeLessThanOrEqual(MAX_CHANGED_PIXELS);
+}
+
+const emotions: Emotion[] = ["neutral", "happy", "sad", "angry", "surprised"];
+
+const mouths: Record<string, Partial<AvatarVisualState>> = {
+  closed: { mouthOpenness: 0, mouthWidth: 0.5, mouthRoundness: 0.2 },
+  open: { mouthOpenness: 0.9, mouthWidth: 0.6, mouthRoundness: 0.3 },
+  wide: { mouthOpenness: 0.3, mouthWidth: 1, mouthRoundness: 0 },
+  round: { mouthOpenness: 0.5, mouthWidth: 0.2, mouthRoundness: 1 },
+};
+
+const poses: Gesture[] = ["wave", "point-left", "open-palms", "shrug", "nod"];
+
+describe("renderAvatarFrame goldens", () => {
+  test.each(emotions)("emotion %s", (emotion) => {
+    expectGolden(`emotion-${emotion}`, render({ emotion, emotionIntensity: 0.8 }));
+  });
+
+  test.each(Object.keys(mouths))("mouth %s", (shape) => {
+    expectGolden(`mouth-${shape}`, render(mouths[shape]));
+  });
+
+  test.each([0.5, 1])("blink %s", (blink) => {
+    expectGolden(`blink-${blink * 100}`, render({ blink }));
+  });
+
+  test.each(poses)("pose %s", (gesture) => {
+    const pose = sampleGesture(gesture, gestureDuration(gesture) * 0.4, restPose());
+    expect(pose).not.toBeNull();
+    expectGolden(`pose-${gesture}`, render({ pose: pose ?? undefined }));
+  });
+
+  test("no portrait", () => {
+    expectGolden("portrait-none", render({}));
+  });
+
+  test("portrait at rest", () => {
+    expectGolden("portrait-rest", render({}, { image: drawPortrait(), landmarks: defaultLandmarks }));
+  });
+
+  test("portrait speaking and blinking", () => {
+    const state = { mouthOpenness: 0.8, blink: 1, browLift: 0.8, headTilt: 6 };
+    expectGolden("portrait-speaking", render(state, { image: drawPortrait(), landmarks: defaultLandmarks }));
+  });
+
+  test.each(["studio", "solid", "chroma", "transparent", "media"] as const)("background %s", (kind) => {
+    const backdrop = drawBackdrop();
+    const background: RenderOptions<Canvas>["background"] =
+      kind === "solid"
+        ? { kind, color: "#7c3aed" }
+        : kind === "media"
+          ? { kind, source: backdrop, width: backdrop.width, height: backdrop.height }
+          : { kind };
+    expectGolden(`background-${kind}`, render({ emotion: "happy", emotionIntensity: 0.6 }, { background }));
+  });
+});
+
+describe("renderSceneFrame goldens", () => {
+  test("side by side on a solid background", () => {
+    const presenters = [avatarStyles[0], avatarStyles[1]].map((style, index) => ({
+      state: { ...defaultVisualState, mouthOpenness: index === 0 ? 0.7 : 0 },
+      style,
+    }));
+    const frame = draw((ctx) =>
+      renderSceneFrame(ctx, presenters, 0, "side", { background: { kind: "solid", color: "#ff0000" } }),
+    );
+    // Behind each panel, not just in the gaps, the shared background must survive.
+    expect(frame.pixel(2, 2)).toEqual([255, 0, 0, 255]);
+    expect(frame.pixel(9, 72)).toEqual([255, 0, 0, 255]);
+    expectGolden("scene-side-solid", frame.png);
+  });
+});
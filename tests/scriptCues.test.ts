@@ -0,0 +1,73 @@
+import { describe, expect, test } from "vitest";
+import { parseScriptCues, pauseHolds, speechChunks, speechChunksFrom } from "../app/lib/scriptCues";
+import { emphasisProsody } from "../app/lib/ssml";
+
+describe("parseScriptCues", () => {
+  test("strips bracket cues and anchors them to the following word", () => {
+    const parsed = parseScriptCues("Hello [happy:0.6] world [pause 1.5s] and [wave] bye.");
+    expect(parsed.text).toBe("Hello world and bye.");
+    expect(parsed.cues).toEqual([
+      { kind: "emotion", tokenIndex: 1, emotion: "happy", intensity: 0.6 },
+      { kind: "pause", tokenIndex: 2, duration: 1500 },
+      { kind: "gesture", tokenIndex: 3, gesture: "wave" },
+    ]);
+  });
+
+  test("leaves unknown brackets in the spoken text", () => {
+    expect(parseScriptCues("He said [sic] so.").text).toBe("He said [sic] so.");
+    expect(parseScriptCues("[happy:lots] Hi").text).toBe("[happy:lots] Hi");
+  });
+
+  test("caps pauses", () => {
+    expect(parseScriptCues("Wait [pause 60s] now").cues).toEqual([{ kind: "pause", tokenIndex: 1, duration: 10_000 }]);
+  });
+
+  test("reads SSML breaks, emphasis and prosody", () => {
+    const parsed = parseScriptCues(
+      '<speak>One <break time="500ms"/> <emphasis level="strong">two</emphasis> <prosody rate="50%">three</prosody></speak>',
+    );
+    expect(parsed.text).toBe("One two three");
+    expect(parsed.cues).toEqual([{ kind: "pause", tokenIndex: 1, duration: 500 }]);
+    expect(parsed.prosody[0]).toEqual({ rate: 1, pitch: 1, emphasis: 0 });
+    expect(parsed.prosody[1]).toEqual(emphasisProsody.strong);
+    expect(parsed.prosody[2].rate).toBeCloseTo(0.5);
+  });
+
+  test("expands say-as before tokenising", () => {
+    expect(parseScriptCues('Call <say-as interpret-as="digits">42</say-as> now').text).toBe("Call four two now");
+  });
+
+  test("keeps line breaks", () => {
+    const { text } = parseScriptCues("First line.\n[sad] Second line.");
+    expect(text.split("\n").map((line) => line.trim())).toEqual(["First line.", "Second line."]);
+  });
+});
+
+describe("pauseHolds", () => {
+  test("adds each pause to the word before it and ignores a leading one", () => {
+    const parsed = parseScriptCues("[pause 300ms] One [pause 200ms] [pause 100ms] two three");
+    expect(pauseHolds(parsed)).toEqual([300, 0, 0]);
+  });
+});
+
+describe("speechChunks", () => {
+  test("splits at pauses and prosody changes", () => {
+    const parsed = parseScriptCues('One two [pause 400ms] three <prosody pitch="high">four</prosody>');
+    const chunks = speechChunks(parsed);
+    expect(chunks.map(({ text, offset, pauseAfter }) => ({ text, offset, pauseAfter }))).toEqual([
+      { text: "One two", offset: 0, pauseAfter: 400 },
+      { text: "three", offset: 8, pauseAfter: 0 },
+      { text: "four", offset: 14, pauseAfter: 0 },
+    ]);
+    expect(chunks[2].pitch).toBeGreaterThan(chunks[1].pitch);
+  });
+
+  test("resumes mid-chunk after a seek", () => {
+    const chunks = speechChunks(parseScriptCues("One two [pause 400ms] three four"));
+    expect(speechChunksFrom(chunks, 4)).toEqual([
+      { ...chunks[0], text: "two", offset: 4 },
+      chunks[1],
+    ]);
+    expect(speechChunksFrom(chunks, 100)).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, test } from "vitest";
+import { buildTextTrack } from "../app/lib/animation";
+import { parseScriptCues } from "../app/lib/scriptCues";
+import {
+  classifySentence,
+  emptySentimentOverrides,
+  sentimentCues,
+  splitSentences,
+  tagSentences,
+} from "../app/lib/sentiment";
+
+const words = (text: string) => text.match(/\S+/g) ?? [];
+
+const tagScript = (script: string, overrides = emptySentimentOverrides()) => {
+  const parsed = parseScriptCues(script);
+  return tagSentences(words(parsed.text), parsed.cues, overrides);
+};
+
+const emotionCues = (script: string) =>
+  buildTextTrack(script, 1, 1, false, { baseEmotion: "neutral", overrides: emptySentimentOverrides() }).cues.flatMap(
+    (cue) => (cue.kind === "emotion" ? [[cue.emotion, cue.tokenIndex]] : []),
+  );
+
+describe("classifySentence", () => {
+  test("reads the lexicon", () => {
+    expect(classifySentence(words("I love this, it is wonderful.")).emotion).toBe("happy");
+    expect(classifySentence(words("Unfortunately we lost everything.")).emotion).toBe("sad");
+    expect(classifySentence(words("This is outrageous and unacceptable.")).emotion).toBe("angry");
+    expect(classifySentence(words("Wow, that is unbelievable!")).emotion).toBe("surprised");
+  });
+
+  test("plain sentences are neutral", () => {
+    expect(classifySentence(words("The meeting is at noon."))).toEqual({ emotion: "neutral", intensity: 0.5 });
+  });
+
+  test("negation turns happy into sad", () => {
+    expect(classifySentence(words("I am not happy about this.")).emotion).toBe("sad");
+  });
+
+  test("exclamations raise the intensity", () => {
+    const calm = classifySentence(words("This is great."));
+    const loud = classifySentence(words("This is great!!!"));
+    expect(loud.intensity).toBeGreaterThan(calm.intensity);
+  });
+});
+
+describe("splitSentences", () => {
+  test("ends sentences at punctuation and keeps a trailing fragment", () => {
+    expect(splitSentences(words("One. Two! Three? And four"))).toEqual([
+      { from: 0, to: 1 },
+      { from: 1, to: 2 },
+      { from: 2, to: 3 },
+      { from: 3, to: 5 },
+    ]);
+  });
+});
+
+describe("tagSentences", () => {
+  test("edits replace the lexicon's guess", () => {
+    const overrides = emptySentimentOverrides();
+    overrides["the meeting is at noon"] = { emotion: "angry", intensity: 0.9 };
+    expect(tagScript("The meeting is at noon.", overrides)[0]).toMatchObject({
+      emotion: "angry",
+      intensity: 0.9,
+      source: "edited",
+    });
+  });
+
+  test("the words ahead of a mid-sentence cue are tagged on their own", () => {
+    const tags = tagScript("I love this so much, [sad] but it is over.");
+    expect(tags.map(({ from, to, emotion, source }) => ({ from, to, emotion, source }))).toEqual([
+      { from: 0, to: 5, emotion: "happy", source: "lexicon" },
+      { from: 5, to: 9, emotion: "sad", source: "scripted" },
+    ]);
+  });
+});
+
+describe("sentimentCues", () => {
+  test("a scripted emotion holds through neutral sentences", () => {
+    expect(emotionCues("[happy] Hello there. The meeting is at noon. [sad] We will miss you.")).toEqual([
+      ["happy", 0],
+      ["sad", 7],
+    ]);
+  });
+
+  test("an emotional sentence gets a cue and the next neutral one goes back to the scripted emotion", () => {
+    expect(emotionCues("[surprised] Look at this. I hate it, it is awful. The meeting is at noon.")).toEqual([
+      ["surprised", 0],
+      ["angry", 3],
+      ["surprised", 9],
+    ]);
+  });
+
+  test("before any scripted cue, neutral sentences go back to the base emotion", () => {
+    const tags = tagScript("I am so happy! The meeting is at noon.");
+    expect(sentimentCues(tags, "sad")).toEqual([
+      { kind: "emotion", tokenIndex: 0, emotion: "happy", intensity: tags[0].intensity },
+      { kind: "emotion", tokenIndex: 4, emotion: "sad", intensity: 1 },
+    ]);
+  });
+
+  test("neutral text adds no cues", () => {
+    expect(emotionCues("The meeting is at noon. Bring the slides.")).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, test } from "vitest";
+import { dateWords, numberToWords, ordinalWords, sayAs } from "../app/lib/ssml";
+
+describe("numberToWords", () => {
+  test.each([
+    [0, "zero"],
+    [7, "seven"],
+    [42, "forty-two"],
+    [1905, "one thousand nine hundred five"],
+    [-12, "minus twelve"],
+    [3_000_000, "three million"],
+  ])("%s", (value, words) => {
+    expect(numberToWords(value)).toBe(words);
+  });
+
+  test("reads the fraction digit by digit", () => {
+    expect(numberToWords("3.14")).toBe("three point one four");
+    expect(numberToWords("0.0000001")).toBe("zero point zero zero zero zero zero zero one");
+  });
+
+  test("spells long integers digit by digit without losing precision", () => {
+    expect(numberToWords("123456789012345678901234")).toBe(
+      "one two three four five six seven eight nine zero one two three four five six seven eight nine zero one two three four",
+    );
+  });
+
+  test("leaves exponent forms and other text unchanged", () => {
+    expect(numberToWords("1e21")).toBe("1e21");
+    expect(numberToWords(1e21)).toBe("1e+21");
+    expect(numberToWords(Number.NaN)).toBe("NaN");
+  });
+});
+
+describe("ordinalWords", () => {
+  test.each([
+    [1, "first"],
+    [12, "twelfth"],
+    [20, "twentieth"],
+    [23, "twenty-third"],
+    [100, "one hundredth"],
+  ])("%s", (value, words) => {
+    expect(ordinalWords(value)).toBe(words);
+  });
+});
+
+describe("sayAs", () => {
+  test("cardinal numbers keep their digits and commas", () => {
+    expect(sayAs("1,250 people", "cardinal")).toBe("one thousand two hundred fifty people");
+    expect(sayAs("0.0000001", "number")).toBe("zero point zero zero zero zero zero zero one");
+  });
+
+  test("exponent forms are left as written", () => {
+    expect(sayAs("1e21", "cardinal")).toBe("1e21");
+    expect(sayAs("about 2E-3 of it", "cardinal")).toBe("about 2E-3 of it");
+    expect(sayAs("3e5", "ordinal")).toBe("3e5");
+  });
+
+  test("ordinals, digits and characters", () => {
+    expect(sayAs("21", "ordinal")).toBe("twenty-first");
+    expect(sayAs("555-0199", "telephone")).toBe("five five five - zero one nine nine");
+    expect(sayAs("A B", "characters")).toBe("A B");
+  });
+
+  test("unknown interpretations leave the text alone", () => {
+    expect(sayAs("42", "unit")).toBe("42");
+  });
+});
+
+describe("dateWords", () => {
+  test("reads ISO and US dates", () => {
+    expect(dateWords("2024-03-05")).toBe("March fifth, twenty twenty-four");
+    expect(dateWords("3/5/1999")).toBe("March fifth, nineteen ninety-nine");
+  });
+
+  test("honours the format attribute", () => {
+    expect(dateWords("05.03.2007", "dmy")).toBe("March fifth, two thousand seven");
+  });
+});